@@ -1,5 +1,10 @@
 /** @type {import('jest').Config} */
 module.exports = {
-  testMatch: ['**/tests/**/*.test.[jt]s?(x)'],
-  testEnvironment: 'node',
+  // the fixture suite runs once per css backend
+  projects: ['esbuild', 'lightningcss'].map((backend) => ({
+    displayName: backend,
+    testMatch: ['<rootDir>/tests/**/*.test.[jt]s?(x)'],
+    testEnvironment: 'node',
+    globals: { backend },
+  })),
 };
@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import type { AssetTransformCustom, AssetTransformer, RollupCssAssetsTransform } from './types';
+
+/** The transformed contents of the assets of a build, mapped by their input path. */
+export type AssetSources = Map<string, Promise<Buffer>>;
+
+const getTransformerOptions = <O extends Record<string, any>>(
+  transformer: AssetTransformer<O>,
+  filePath: string
+): O | null => {
+  const [test, options] = Array.isArray(transformer) ? transformer : [transformer, {} as O];
+  return test && test.test(filePath) ? options : null;
+};
+
+const svgo = async (source: Buffer, filePath: string, options: Record<string, any>) => {
+  const { optimize } = (await import('svgo').catch(() => null)) || {};
+
+  if (!optimize) {
+    throw new Error('Please install the "svgo" package to support ".svg" asset minification.');
+  }
+
+  try {
+    return Buffer.from(optimize(source.toString(), { ...options, path: filePath }).data);
+  } catch (error) {
+    throw new Error(`Svgo: Couldn't minify "${filePath}". (${error})`);
+  }
+};
+
+const runCustomTransform = async (
+  customTransform: AssetTransformCustom,
+  source: Buffer,
+  filePath: string,
+  cssFiles: string[]
+) => {
+  const result = await customTransform({ source, path: filePath, cssFiles });
+  return result === null || result === undefined ? source : Buffer.from(result);
+};
+
+/**
+ * Reads the passed asset and runs it through the transforms.
+ * The built-in transforms run first, the custom transforms afterwards in the passed order.
+ * @param cssFiles The input paths of the css files which use the asset.
+ * @returns The transformed content of the asset.
+ */
+const transformAsset = async (
+  filePath: string,
+  cssFiles: string[],
+  { svgo: svgoTransformer, custom }: RollupCssAssetsTransform
+) => {
+  let source = await fs.promises.readFile(filePath);
+  const svgoOptions = getTransformerOptions(svgoTransformer, filePath);
+
+  if (svgoOptions) {
+    source = await svgo(source, filePath, svgoOptions);
+  }
+
+  for (const customTransform of Array.isArray(custom) ? custom : custom ? [custom] : []) {
+    source = await runCustomTransform(customTransform, source, filePath, cssFiles);
+  }
+
+  return source;
+};
+
+/**
+ * Gets the transformed content of the passed asset, each asset is transformed only once per build.
+ * @param cssFiles The input paths of the css files which use the asset.
+ */
+export const loadAssetSource = (
+  filePath: string,
+  cssFiles: string[],
+  transformOptions: RollupCssAssetsTransform,
+  assetSources: AssetSources
+) => {
+  if (!assetSources.has(filePath)) {
+    assetSources.set(filePath, transformAsset(filePath, cssFiles, transformOptions));
+  }
+  return assetSources.get(filePath)!;
+};
@@ -4,6 +4,7 @@ import * as path from 'path';
 import { normalizePathSlashes } from './normalizePathSlashes';
 import type { ExistingRawSourceMap } from 'rollup';
 import type { Syntax } from 'sass';
+import type { Message } from 'postcss';
 import type {
   CssProcessor,
   CssProcessorInfo,
@@ -76,11 +77,157 @@ const resolvePaths = async (
   return resolvedPath;
 };
 
+const sassExtensions = ['.sass', '.scss', '.css'];
+
+const findFile = (candidates: string[]) =>
+  candidates.find((candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+
+const getSassFileCandidates = (filePath: string, extensions: string[], fromImport: boolean) => {
+  const dir = path.dirname(filePath);
+  const base = path.basename(filePath);
+
+  // import-only files take precedence over regular files if the file is loaded with @import
+  return [...(fromImport ? ['.import'] : []), '']
+    .map((suffix) =>
+      extensions
+        .map((ext) => [
+          path.join(dir, `_${base}${suffix}${ext}`),
+          path.join(dir, `${base}${suffix}${ext}`),
+        ])
+        .flat()
+    )
+    .flat();
+};
+
+/**
+ * Resolves the passed path according to the sass resolution rules (extensions, partials and index files).
+ * @returns The path of the existing file or undefined if no file could be found.
+ */
+const resolveSassFile = (filePath: string, fromImport: boolean) => {
+  const ext = path.extname(filePath);
+
+  if (sassExtensions.includes(ext)) {
+    return findFile(getSassFileCandidates(filePath.slice(0, -ext.length), [ext], fromImport));
+  }
+
+  return findFile([
+    ...getSassFileCandidates(filePath, sassExtensions, fromImport),
+    ...getSassFileCandidates(path.join(filePath, 'index'), sassExtensions, fromImport),
+  ]);
+};
+
+/**
+ * Resolves the passed package import (e.g. "~bootstrap/scss/functions" or "pkg:bootstrap") from the nearest "node_modules" directory.
+ * @returns The path of the existing file or undefined if no file could be found.
+ */
+const resolveSassPackage = (request: string, fromDir: string, fromImport: boolean) => {
+  const segments = request.split('/');
+  const nameLength = request.startsWith('@') ? 2 : 1;
+  const packageName = segments.slice(0, nameLength).join('/');
+  const subPath = segments.slice(nameLength).join('/');
+  let dir = fromDir;
+
+  while (true) {
+    const packageDir = path.join(dir, 'node_modules', packageName);
+
+    if (fs.existsSync(packageDir)) {
+      if (subPath) {
+        return resolveSassFile(path.join(packageDir, subPath), fromImport);
+      }
+
+      const packageJsonPath = path.join(packageDir, 'package.json');
+      const { sass, style } = fs.existsSync(packageJsonPath)
+        ? JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'))
+        : ({} as Record<string, string | undefined>);
+      const entry = sass || style;
+
+      return entry
+        ? findFile([path.join(packageDir, entry)])
+        : resolveSassFile(path.join(packageDir, 'index'), fromImport);
+    }
+
+    const parentDir = path.dirname(dir);
+    if (parentDir === dir) {
+      return;
+    }
+    dir = parentDir;
+  }
+};
+
+const stylusImportRegex = /@(?:import|require)\s+([^;\n]+)/g;
+
+const getStylusImportKey = (importer: string, request: string) => `${importer}\0${request}`;
+
+const findStylusFile = (importedPath: string) =>
+  findFile([importedPath, `${importedPath}.styl`, path.join(importedPath, 'index.styl')]);
+
+/**
+ * Stylus evaluates its imports synchronously, so all imports which can't be found on disk are resolved beforehand.
+ * @param resolvedImports The map which is filled with the resolved imports.
+ * @param importedFiles The set which is filled with all found imported files.
+ */
+const resolveStylusImports = async (
+  code: string,
+  importer: string,
+  resolve: CssProcessorInfo['resolve'],
+  resolvedImports: Map<string, string>,
+  importedFiles: Set<string>
+) => {
+  const requests = Array.from(code.matchAll(stylusImportRegex))
+    .map(([, paths]) =>
+      Array.from(paths.matchAll(/(['"])(.+?)\1/g)).map(([, , request]) => request)
+    )
+    .flat()
+    .filter((request) => !/^(?:url\(|#|(?:https?:)?\/\/)/i.test(request));
+
+  for (const request of requests) {
+    const importedPath = path.resolve(path.dirname(importer), request);
+    let resolvedPath = findStylusFile(importedPath);
+
+    if (!resolvedPath) {
+      const pluginResolvedPath = await resolvePaths(resolve, importedPath, importer);
+      resolvedPath = pluginResolvedPath ? findStylusFile(pluginResolvedPath) : undefined;
+
+      if (resolvedPath) {
+        resolvedImports.set(getStylusImportKey(importer, request), resolvedPath);
+      }
+    }
+
+    if (resolvedPath && !importedFiles.has(resolvedPath)) {
+      importedFiles.add(resolvedPath);
+
+      if (!/\.css$/.test(resolvedPath)) {
+        await resolveStylusImports(
+          fs.readFileSync(resolvedPath, 'utf8'),
+          resolvedPath,
+          resolve,
+          resolvedImports,
+          importedFiles
+        );
+      }
+    }
+  }
+};
+
+const getPostcssWatchFiles = (messages: Message[]) =>
+  messages
+    .map(({ type, file, dir }) =>
+      type === 'dependency' ? file : type === 'dir-dependency' ? dir : null
+    )
+    .filter(Boolean) as string[];
+
+/** Runs the matching built-in processors (except css modules) for the passed file. */
+export type CssPreprocess = (filePath: string) => Promise<{ css: string; watchFiles: string[] }>;
+
 export type BuiltInProcessors = {
   [N in keyof Omit<RollupCssProcessors, 'custom'>]: RollupCssProcessors[N] extends CssProcessor<
     infer O
   >
-    ? (info: CssProcessorInfo, options?: O) => CssProcessorResult | Promise<CssProcessorResult>
+    ? (
+        info: CssProcessorInfo,
+        options: O | undefined,
+        preprocess: CssPreprocess
+      ) => CssProcessorResult | Promise<CssProcessorResult>
     : never;
 };
 
@@ -88,6 +235,40 @@ export const builtInProcessors: BuiltInProcessors = {
   sass: async (info, options): Promise<CssProcessorResult> => {
     const { css: code, sourcemap, path: filePath, resolve } = info;
     const { default: sassCompiler } = (await import('sass').catch(() => null)) || {};
+    // the same url can be canonicalized multiple times, each file must map to exactly one canonical url though so it is only evaluated once
+    const canonicalizeCache = new Map<string, Promise<URL | null>>();
+    const canonicalizeSassUrl = async (importedUrl: string, fromImport: boolean) => {
+      const isPackageUrl = importedUrl.startsWith('pkg:');
+
+      if (!isPackageUrl && !importedUrl.startsWith('file:')) {
+        return null;
+      }
+
+      const importedPath = isPackageUrl ? '' : url.fileURLToPath(importedUrl);
+      // relative urls are resolved against the importing file by sass, so "~" imports end up as a path segment
+      const [, tildeDir, tildeRequest] = importedPath.match(/^(.*?)[\\/]~([^\\/].*)$/) || [];
+      const packageRequest = isPackageUrl ? importedUrl.slice(4) : tildeRequest;
+      let resolvedPath: string | null | undefined = packageRequest
+        ? resolveSassPackage(packageRequest, tildeDir || path.dirname(filePath), fromImport)
+        : resolveSassFile(importedPath, fromImport);
+
+      // fall back to the resolve option and other plugins (e.g. aliases)
+      if (!resolvedPath) {
+        const pluginResolvedPath = packageRequest
+          ? await resolve(
+              packageRequest,
+              path.join(tildeDir || path.dirname(filePath), unkownImporterFilePlaceholder),
+              '@import'
+            )
+          : await resolvePaths(resolve, importedPath);
+
+        resolvedPath =
+          pluginResolvedPath &&
+          (resolveSassFile(pluginResolvedPath, fromImport) || findFile([pluginResolvedPath]));
+      }
+
+      return resolvedPath ? url.pathToFileURL(fs.realpathSync(resolvedPath)) : null;
+    };
 
     if (sassCompiler) {
       try {
@@ -98,23 +279,26 @@ export const builtInProcessors: BuiltInProcessors = {
         } = await sassCompiler.compileStringAsync(code, {
           ...(options || {}),
           url: new URL(url.pathToFileURL(filePath).toString()),
-          syntax: 'scss',
+          syntax: getSassSyntax(filePath),
           sourceMap: sourcemap,
           sourceMapIncludeSources: true,
           importer: {
-            canonicalize: (url) => new URL(url),
-            async load(importedUrl) {
-              const importedPath = url.fileURLToPath(importedUrl);
-              const resolvedPath = await resolvePaths(resolve, importedPath);
-
-              if (resolvedPath) {
-                return {
-                  contents: fs.readFileSync(resolvedPath).toString(),
-                  syntax: getSassSyntax(resolvedPath),
-                };
+            async canonicalize(importedUrl, { fromImport }) {
+              const cacheKey = `${fromImport}:${importedUrl}`;
+
+              if (!canonicalizeCache.has(cacheKey)) {
+                canonicalizeCache.set(cacheKey, canonicalizeSassUrl(importedUrl, fromImport));
               }
 
-              throw new Error(`Couldn't resolve "${path.basename(importedPath)}".`);
+              return canonicalizeCache.get(cacheKey)!;
+            },
+            load(canonicalUrl) {
+              const resolvedPath = url.fileURLToPath(canonicalUrl);
+
+              return {
+                contents: fs.readFileSync(resolvedPath).toString(),
+                syntax: getSassSyntax(resolvedPath),
+              };
             },
           },
         });
@@ -187,11 +371,39 @@ export const builtInProcessors: BuiltInProcessors = {
   },
 
   stylus: async (info, options): Promise<CssProcessorResult> => {
-    const { css: code, sourcemap, path: filePath } = info;
+    const { css: code, sourcemap, path: filePath, resolve } = info;
     const { default: stylusCompiler } = (await import('stylus').catch(() => null)) || {};
 
     if (stylusCompiler) {
       try {
+        const resolvedImports = new Map<string, string>();
+        const importedFiles = new Set<string>();
+        await resolveStylusImports(code, filePath, resolve, resolvedImports, importedFiles);
+
+        const { Evaluator, nodes } = stylusCompiler;
+        // the stylus types don't describe the evaluator
+        const BaseEvaluator = Evaluator as unknown as new (...args: any[]) => {
+          filename: string;
+          importStack: string[];
+          visitImport(imported: { path: InstanceType<typeof nodes.Expression> }): unknown;
+        };
+        const ResolvingEvaluator = class extends BaseEvaluator {
+          visitImport(imported: { path: InstanceType<typeof nodes.Expression> }) {
+            const importer = this.importStack[this.importStack.length - 1] || this.filename;
+            const request = (imported.path.first as InstanceType<typeof nodes.String>).string;
+            const resolvedPath =
+              request && resolvedImports.get(getStylusImportKey(importer, request));
+
+            if (resolvedPath) {
+              const resolvedPathExpression = new nodes.Expression(false);
+              resolvedPathExpression.push(new nodes.String(resolvedPath));
+              imported.path = resolvedPathExpression;
+            }
+
+            return super.visitImport(imported);
+          }
+        };
+
         const sourcemapObj = sourcemap
           ? {
               sourcemap: {
@@ -203,6 +415,7 @@ export const builtInProcessors: BuiltInProcessors = {
         const renderer = stylusCompiler(code, {
           ...(options || {}),
           filename: filePath,
+          Evaluator: ResolvingEvaluator as unknown as typeof Evaluator,
           // @ts-ignore
           ...sourcemapObj,
         });
@@ -210,7 +423,7 @@ export const builtInProcessors: BuiltInProcessors = {
         const rawSourcemap = renderer.sourcemap as ExistingRawSourceMap | undefined;
         const css = renderer.render();
         const map = rawSourcemap ? JSON.stringify(rawSourcemap) : undefined;
-        const watchFiles = renderer.deps();
+        const watchFiles = [...new Set([...renderer.deps(), ...importedFiles])];
 
         return {
           css,
@@ -224,26 +437,195 @@ export const builtInProcessors: BuiltInProcessors = {
     throw new Error('Please install the "stylus" package to support ".styl" file compilation.');
   },
 
-  cssModules: async (info, options): Promise<CssProcessorResult> => {
+  sugarss: async (info, options): Promise<CssProcessorResult> => {
+    const { css: code, map: prevSourcemap, sourcemap, path: filePath } = info;
+    const { default: postcss } = (await import('postcss').catch(() => null)) || {};
+    const { default: sugarss } = (await import('sugarss').catch(() => null)) || {};
+
+    if (postcss && sugarss) {
+      try {
+        // the indentation based syntax is only parsed here, plugins are applied by the postcss processor
+        const {
+          css,
+          map: rawSourcemapObj,
+          messages,
+        } = await postcss().process(code, {
+          ...(options || {}),
+          parser: sugarss.parse,
+          from: filePath,
+          to: filePath,
+          map: sourcemap
+            ? {
+                inline: false,
+                annotation: false,
+                absolute: true,
+                sourcesContent: true,
+                prev: prevSourcemap,
+              }
+            : undefined,
+        });
+
+        const rawSourcemap = rawSourcemapObj?.toJSON();
+        const map = rawSourcemap ? JSON.stringify(rawSourcemap) : undefined;
+        const watchFiles = getPostcssWatchFiles(messages);
+
+        return { css, map, watchFiles };
+      } catch (error) {
+        throw new Error(`SugarSS: Couldn't compile "${filePath}". (${error})`);
+      }
+    }
+    throw new Error(
+      'Please install the "postcss" and "sugarss" package to support ".sss" file compilation.'
+    );
+  },
+
+  postcss: async (info, options): Promise<CssProcessorResult> => {
+    const { css: code, map: prevSourcemap, sourcemap, path: filePath } = info;
+    const { plugins, options: postcssOptions } = options || {};
+    const { config = !plugins } = options || {};
+    const { default: postcss } = (await import('postcss').catch(() => null)) || {};
+
+    if (postcss) {
+      const { default: loadConfig } =
+        (config && (await import('postcss-load-config').catch(() => null))) || {};
+
+      if (config && !loadConfig) {
+        throw new Error(
+          'Please install the "postcss-load-config" package to support postcss config files.'
+        );
+      }
+
+      try {
+        const loadedConfig = loadConfig
+          ? await loadConfig(
+              { cwd: process.cwd(), env: process.env.NODE_ENV },
+              typeof config === 'string' ? config : path.dirname(filePath)
+            ).catch((error: Error) => {
+              // a missing config file isn't an error, the processor is skipped in this case
+              if (/No PostCSS Config found/.test(error.message)) {
+                return null;
+              }
+              throw error;
+            })
+          : null;
+
+        if (!plugins && !loadedConfig) {
+          return {
+            css: code,
+            map: prevSourcemap,
+          };
+        }
+
+        const {
+          css,
+          map: rawSourcemapObj,
+          messages,
+        } = await postcss([...(plugins || []), ...(loadedConfig?.plugins || [])]).process(code, {
+          ...(loadedConfig?.options || {}),
+          ...(postcssOptions || {}),
+          from: filePath,
+          to: filePath,
+          map: sourcemap
+            ? {
+                inline: false,
+                annotation: false,
+                absolute: true,
+                sourcesContent: true,
+                prev: prevSourcemap,
+              }
+            : undefined,
+        });
+
+        const rawSourcemap = rawSourcemapObj?.toJSON();
+        const map = rawSourcemap ? JSON.stringify(rawSourcemap) : undefined;
+        const watchFiles = getPostcssWatchFiles(messages);
+
+        return {
+          css,
+          map,
+          watchFiles: loadedConfig ? [loadedConfig.file, ...watchFiles] : watchFiles,
+        };
+      } catch (error) {
+        throw new Error(`PostCSS: Couldn't compile "${filePath}". (${error})`);
+      }
+    }
+    throw new Error(
+      'Please install the "postcss" package to support ".pcss" / ".postcss" / ".sss" file compilation.'
+    );
+  },
+
+  cssModules: async (info, options, preprocess): Promise<CssProcessorResult> => {
     let cssModulesData: Record<string, string> = {};
     const { css: code, map: prevSourcemap, sourcemap, path: filePath, resolve } = info;
     const { default: postcss } = (await import('postcss').catch(() => null)) || {};
     const { default: postcssModules } = (await import('postcss-modules').catch(() => null)) || {};
 
     if (postcss && postcssModules) {
+      const composedWatchFiles: string[] = [];
+      // the tokens of the composed files, shared by all loaders so each file is only loaded once
+      const composedTokens = new Map<string, Promise<Record<string, string>>>();
+      const resolveComposed = async (file: string, importer: string) =>
+        (await options?.resolve?.(file, importer)) ||
+        (await resolvePaths(resolve, path.resolve(path.dirname(importer), file), importer));
+      const loadComposed = async (composedFilePath: string, sources: string[]) => {
+        // composed files are preprocessed by the matching built-in processors (e.g. sass) before they are loaded
+        const { css, watchFiles } = await preprocess(composedFilePath);
+        let tokens: Record<string, string> = {};
+
+        composedWatchFiles.push(composedFilePath, ...watchFiles);
+
+        // the css of the files composed by the composed file is already part of the result
+        const result = await postcss([
+          postcssModules({
+            ...getCssModulesOptions(),
+            getJSON: (_, json) => {
+              tokens = json;
+            },
+          }),
+        ]).process(css, { from: composedFilePath });
+        sources.push(result.css);
+
+        return tokens;
+      };
+      // the loader for the files which are composed with "composes: ... from '...'"
+      class PreprocessingLoader {
+        private sources: string[] = [];
+
+        async fetch(file: string, relativeTo: string) {
+          const composedFilePath = await resolveComposed(
+            file.replace(/^["']|["']$/g, ''),
+            relativeTo
+          );
+
+          if (!composedFilePath) {
+            throw new Error(`Couldn't resolve the composed file "${file}".`);
+          }
+          if (!composedTokens.has(composedFilePath)) {
+            composedTokens.set(composedFilePath, loadComposed(composedFilePath, this.sources));
+          }
+
+          return composedTokens.get(composedFilePath)!;
+        }
+
+        get finalSource() {
+          return this.sources.join('');
+        }
+      }
+      const getCssModulesOptions = (): Parameters<typeof postcssModules>[0] => ({
+        scopeBehaviour: 'local',
+        generateScopedName: '[name]_[local]_[hash:base64:4]',
+        ...(options || {}),
+        Loader: PreprocessingLoader,
+      });
+
       try {
         const { css, map: rawSourcemapObj } = await postcss([
           postcssModules({
-            scopeBehaviour: 'local',
-            generateScopedName: '[name]_[local]_[hash:base64:4]',
-            ...(options || {}),
+            ...getCssModulesOptions(),
             getJSON: function (cssFileName, json, outputFileName) {
               cssModulesData = json;
               options?.getJSON?.(cssFileName, json, outputFileName);
             },
-            async fileResolve(file, importer) {
-              return path.resolve(path.dirname(importer), file);
-            },
           }),
         ]).process(code, {
           from: filePath,
@@ -259,16 +641,14 @@ export const builtInProcessors: BuiltInProcessors = {
             : undefined,
         });
 
-        console.log({ rawSourcemapObj });
-
-        const rawSourcemap = rawSourcemapObj.toJSON();
-        console.log(rawSourcemap);
+        const rawSourcemap = rawSourcemapObj?.toJSON();
         const map = rawSourcemap ? JSON.stringify(rawSourcemap) : undefined;
 
         return {
           css,
           map,
           data: cssModulesData ? { cssModules: cssModulesData } : undefined,
+          watchFiles: composedWatchFiles,
         };
       } catch (error) {
         throw new Error(`Css Modules: Couldn't compile "${filePath}". (${error})`);
@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { ExistingRawSourceMap } from 'rollup';
+import type { CssInputItem, RollupCssCache } from './types';
+
+/** The result of the css processors and esbuild for a single css file. */
+export interface CachedCss {
+  css: string;
+  map?: ExistingRawSourceMap;
+  inputs: CssInputItem[];
+  data: Record<string, any>;
+  watchFiles: string[];
+}
+
+interface CacheEntry {
+  version: number;
+  /** The paths of all files the result depends on with the hash of their content at the time the entry was written. */
+  dependencies: [path: string, hash: string | null][];
+  result: CachedCss;
+}
+
+/** Has to be increased whenever the format of the cache entries or the processing results change. */
+const cacheVersion = 1;
+
+const defaultCacheDir = 'node_modules/.cache/rollup-css';
+
+const getHash = (content: string | Buffer) => createHash('sha256').update(content).digest('hex');
+
+const stringifyOptions = (options: unknown) =>
+  JSON.stringify(options, (_, value) => {
+    if (typeof value === 'function' || value instanceof RegExp) {
+      return value.toString();
+    }
+    if (value instanceof Map) {
+      return Array.from(value.entries());
+    }
+    return value;
+  });
+
+const getDependencyHashes = (dependencies: string[]) =>
+  Promise.all(
+    dependencies.map((dependency) =>
+      fs.promises
+        .readFile(dependency)
+        .then(getHash)
+        // missing files and directories have no hash
+        .catch(() => null)
+    )
+  );
+
+const isValidCachedCss = (result: CachedCss | undefined) =>
+  !!result &&
+  typeof result.css === 'string' &&
+  Array.isArray(result.inputs) &&
+  Array.isArray(result.watchFiles) &&
+  typeof result.data === 'object';
+
+export const getCacheOptions = (cache: RollupCssCache) =>
+  cache
+    ? {
+        dir: path.resolve((typeof cache === 'object' && cache.dir) || defaultCacheDir),
+        stats: typeof cache === 'object' ? cache.stats : undefined,
+      }
+    : null;
+
+/** Generates a hash of the passed options, functions and RegExps are considered by their source. */
+export const getOptionsHash = (options: Record<string, unknown>) =>
+  getHash(stringifyOptions(options) || '');
+
+export const getCacheKey = (filePath: string, code: string, optionsHash: string) =>
+  getHash(JSON.stringify([cacheVersion, optionsHash, filePath, code]));
+
+/**
+ * Reads the cache entry with the passed key.
+ * @returns The cached result or null if the entry doesn't exist, is corrupted or one of its dependencies changed.
+ */
+export const readCacheEntry = async (dir: string, key: string): Promise<CachedCss | null> => {
+  try {
+    const { version, dependencies, result } = JSON.parse(
+      await fs.promises.readFile(path.join(dir, `${key}.json`), 'utf8')
+    ) as CacheEntry;
+
+    if (version !== cacheVersion || !Array.isArray(dependencies) || !isValidCachedCss(result)) {
+      return null;
+    }
+
+    const dependencyHashes = await getDependencyHashes(
+      dependencies.map(([dependency]) => dependency)
+    );
+
+    return dependencies.every(([, hash], index) => hash === dependencyHashes[index])
+      ? result
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Writes the passed result as the cache entry with the passed key. */
+export const writeCacheEntry = async (dir: string, key: string, result: CachedCss) => {
+  const { watchFiles, inputs } = result;
+  const dependencies = [
+    ...new Set([
+      ...watchFiles,
+      ...inputs.filter(({ external }) => !external).map(({ path: inputPath }) => inputPath),
+    ]),
+  ];
+  const dependencyHashes = await getDependencyHashes(dependencies);
+  const entry: CacheEntry = {
+    version: cacheVersion,
+    dependencies: dependencies.map((dependency, index) => [dependency, dependencyHashes[index]]),
+    result,
+  };
+  const entryPath = path.join(dir, `${key}.json`);
+  const tempEntryPath = `${entryPath}.${process.pid}.tmp`;
+
+  await fs.promises.mkdir(dir, { recursive: true });
+  // the entry is renamed after it was written, so other builds never read a partially written entry
+  await fs.promises.writeFile(tempEntryPath, JSON.stringify(entry));
+  await fs.promises.rename(tempEntryPath, entryPath);
+};
@@ -1,7 +1,9 @@
+import * as fs from 'fs';
 import * as path from 'path';
 import { builtInProcessors } from './builtInCssProcessors';
+import { normalizePathSlashes } from './normalizePathSlashes';
 import type { ResolvedId, TransformPluginContext } from 'rollup';
-import type { BuiltInProcessors } from './builtInCssProcessors';
+import type { BuiltInProcessors, CssPreprocess } from './builtInCssProcessors';
 import type {
   RollupCssProcessors,
   CssProcessorInfo,
@@ -30,12 +32,17 @@ const runBuiltInProcessor = async <S extends keyof BuiltInProcessorOptions>(
   baseInfo: CssProcessorInfo,
   latestResult: CssProcessorResult | null,
   processor: BuiltInProcessors[S],
-  processorOption: BuiltInProcessorOptions[S]
+  processorOption: BuiltInProcessorOptions[S],
+  preprocess: CssPreprocess
 ) => {
   if (processorOption) {
     const [regex, option] = Array.isArray(processorOption) ? processorOption : [processorOption];
     if (regex.test(filePath)) {
-      return await processor({ ...baseInfo, map: latestResult?.map }, option);
+      return await processor(
+        { ...baseInfo, css: latestResult?.css ?? baseInfo.css, map: latestResult?.map },
+        option,
+        preprocess
+      );
     }
   }
 };
@@ -89,27 +96,75 @@ export const runCssProcessors = async (
     },
   };
 
-  for (let processorName of Object.keys(
+  const builtInProcessorNames = Object.keys(
     builtInProcessorOptions
-  ) as (keyof BuiltInProcessorOptions)[]) {
+  ) as (keyof BuiltInProcessorOptions)[];
+  // preprocesses other files (e.g. composed css modules) with all built-in processors except css modules
+  const preprocess: CssPreprocess = async (preprocessedFilePath) => {
+    const preprocessedWatchFiles: string[] = [];
+    const normalizedFilePath = normalizePathSlashes(preprocessedFilePath);
+    const preprocessInfo: CssProcessorInfo = {
+      ...baseInfo,
+      css: await fs.promises.readFile(preprocessedFilePath, 'utf8'),
+      sourcemap: false,
+      path: normalizedFilePath,
+    };
+    let preprocessedResult: CssProcessorResult | null = null;
+
+    for (let processorName of builtInProcessorNames.filter((name) => name !== 'cssModules')) {
+      const result: CssProcessorResult | undefined = await runBuiltInProcessor(
+        normalizedFilePath,
+        preprocessInfo,
+        preprocessedResult,
+        builtInProcessors[processorName],
+        builtInProcessorOptions[processorName],
+        preprocess
+      );
+
+      if (result) {
+        preprocessedResult = result;
+        preprocessedWatchFiles.push(...(result.watchFiles || []));
+      }
+    }
+
+    return {
+      css: preprocessedResult?.css ?? preprocessInfo.css,
+      watchFiles: preprocessedWatchFiles,
+    };
+  };
+
+  for (let processorName of builtInProcessorNames) {
     latestResult = collectResult(
       await runBuiltInProcessor(
         filePath,
         baseInfo,
         latestResult,
         builtInProcessors[processorName],
-        builtInProcessorOptions[processorName]
+        builtInProcessorOptions[processorName],
+        preprocess
       )
     );
   }
 
   if (customProcessor) {
     if (typeof customProcessor === 'function') {
-      latestResult = collectResult(await customProcessor({ ...baseInfo, map: latestResult?.map }));
+      latestResult = collectResult(
+        await customProcessor({
+          ...baseInfo,
+          css: latestResult?.css ?? baseInfo.css,
+          map: latestResult?.map,
+        })
+      );
     } else {
       for (let [regex, processor] of customProcessor.entries()) {
         if (regex.test(filePath)) {
-          latestResult = collectResult(await processor({ ...baseInfo, map: latestResult?.map }));
+          latestResult = collectResult(
+            await processor({
+              ...baseInfo,
+              css: latestResult?.css ?? baseInfo.css,
+              map: latestResult?.map,
+            })
+          );
         }
       }
     }
@@ -0,0 +1,48 @@
+import * as path from 'path';
+import type { CssInputItem } from './types';
+
+const dataUrlMimeTypes: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.eot': 'application/vnd.ms-fontobject',
+};
+
+// characters which are safe inside of a data url are decoded again, so the url stays short and readable
+const encodeSvg = (svg: string) =>
+  encodeURIComponent(svg).replace(/%(20|3D|3A|2F|2C|3B)/g, (_, hex: string) =>
+    String.fromCharCode(parseInt(hex, 16))
+  );
+
+/**
+ * Gets the data url of the passed file content and the encoding which was used for it.
+ * SVGs are url encoded, because they are text and url encoding is shorter than base64 for them, all other files are base64 encoded.
+ */
+export const getDataUrl = (
+  filePath: string,
+  content: Buffer
+): { url: string; encoding: NonNullable<CssInputItem['encoding']> } => {
+  const mimeType =
+    dataUrlMimeTypes[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+
+  if (mimeType === 'image/svg+xml') {
+    return {
+      url: `data:${mimeType},${encodeSvg(content.toString())}`,
+      encoding: 'url',
+    };
+  }
+
+  return {
+    url: `data:${mimeType};base64,${content.toString('base64')}`,
+    encoding: 'base64',
+  };
+};
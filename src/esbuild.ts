@@ -1,170 +1,90 @@
-import * as fs from 'fs';
-import * as url from 'url';
-import { dirname, isAbsolute, resolve as pathResolve } from 'path';
+import { dirname, resolve as resolvePath } from 'path';
 import esbuild from 'esbuild';
 import { normalizePathSlashes } from './normalizePathSlashes';
-import {
-  templateInterpolatePrefix,
-  templateInterpolateSuffix,
-  templateInterpolateSymbol,
-} from './render';
-import type { BuildOptions, OutputFile, ImportKind } from 'esbuild';
-import type {
-  ExistingRawSourceMap,
-  ResolvedId,
-  SourceMapInput,
-  TransformPluginContext,
-} from 'rollup';
-import type {
-  RollupCssAssets,
-  RollupCssResolve,
-  AssetsInline,
-  ResolveContext,
-  ResolveResult,
-  CssInputItem,
-} from './types';
+import { getAssetPlaceholder, getPlaceholderToken } from './render';
+import { isExternalUrl, resolveCssPath } from './resolve';
+import { normalizeSourcemapSources } from './sourcemap';
+import type { BuildOptions, BuildResult, BuildInvalidate, OutputFile, ImportKind } from 'esbuild';
+import type { ExistingRawSourceMap, SourceMapInput, TransformPluginContext } from 'rollup';
+import type { RollupCssResolve, ResolveContext, CssInputItem } from './types';
 
 interface EsbuildUserForcedOptions {
   sourcemap: boolean;
   minify: boolean;
+  targets: string[] | null;
 }
 
-const processedImportKinds: ImportKind[] = ['url-token', 'import-rule'];
-
-const getIsInlined = (path: string, inlineOption: AssetsInline): boolean => {
-  const isFunction = typeof inlineOption === 'function';
-  const isRegExp = inlineOption instanceof RegExp;
-  const isArray = Array.isArray(inlineOption);
-
-  if (isFunction) {
-    return inlineOption(path);
-  }
+/** The state of a single build, it is replaced before each rebuild of an incremental build. */
+interface EsbuildBuildState {
+  code: string;
+  inputs: CssInputItem[];
+  watchFiles: string[];
+  rollupPluginContext: TransformPluginContext;
+}
 
-  if (isRegExp) {
-    return inlineOption.test(path);
-  }
+interface EsbuildContext {
+  state: EsbuildBuildState;
+  rebuild: BuildInvalidate;
+}
 
-  if (isArray) {
-    return !!inlineOption.find((regexOrFn) =>
-      typeof regexOrFn === 'function' ? regexOrFn(path) : regexOrFn.test(path)
-    );
-  }
+/** The long-lived incremental esbuild builds for each css file. */
+export type EsbuildContexts = Map<string, EsbuildContext>;
 
-  return !!inlineOption;
-};
+const processedImportKinds: ImportKind[] = ['url-token', 'import-rule'];
 
 const getResolveContext = (kind: ImportKind): ResolveContext =>
   kind === 'import-rule' ? '@import' : 'url';
 
-const isExternalUrl = (path: string) => {
-  try {
-    const { protocol } = new URL(path);
-    return protocol === 'http:' || protocol === 'https:' || protocol === 'data:';
-  } catch {
-    return false;
-  }
-};
-
-const normalizeRollupResolveId = (
-  resolvedId: ResolvedId | null,
-  pathToResolve: string,
-  resolveContext: ResolveContext
-): ResolveResult => {
-  if (resolvedId) {
-    const { id, external } = resolvedId;
-    return {
-      path: normalizePathSlashes(id),
-      external: !!external,
-    };
-  }
-  if (resolveContext === 'url') {
-    // absolute paths are considered external
-    if (pathToResolve.startsWith('/')) {
-      return {
-        path: normalizePathSlashes(pathToResolve),
-        external: true,
-      };
-    }
-    // ids are considered external
-    if (pathToResolve.startsWith('#')) {
-      return {
-        path: pathToResolve,
-        external: true,
-      };
-    }
-    // http: || https: || data: urls are considered external
-    if (isExternalUrl(pathToResolve)) {
-      return {
-        path: pathToResolve,
-        external: true,
-      };
-    }
-  }
-
-  return null;
-};
-
 const normalizeSourcemap = (
   sourcemap: OutputFile | undefined
 ): ExistingRawSourceMap | undefined => {
   if (sourcemap) {
     const { path, text } = sourcemap;
     try {
-      const parsedMap = JSON.parse(text) as ExistingRawSourceMap;
-      return {
-        ...parsedMap,
-        sources: parsedMap.sources.map((sourcePath) => {
-          let diskPath = sourcePath;
-          try {
-            diskPath = url.fileURLToPath(sourcePath);
-          } catch {}
-
-          if (!isAbsolute(diskPath)) {
-            diskPath = pathResolve(dirname(path), diskPath);
-          }
-
-          return normalizePathSlashes(diskPath);
-        }),
-      };
+      return normalizeSourcemapSources(JSON.parse(text) as ExistingRawSourceMap, dirname(path));
     } catch {}
   }
 };
 
-export const runEsbuild = async (
+const getBuildOptions = (
   inputFilePath: string,
-  inputCode: string,
-  inputSourcemap: string | undefined,
+  state: EsbuildBuildState,
   userOptions: BuildOptions,
   forcedOptions: EsbuildUserForcedOptions,
-  assetOptions: RollupCssAssets,
-  resolve: RollupCssResolve,
-  rollupPluginContext: TransformPluginContext
-) => {
-  const inputs: CssInputItem[] = [];
-  const watchFiles: string[] = [];
-  const { sourcemap, minify } = forcedOptions;
-  const { inline } = assetOptions;
-  const inlineSourcemap = inputSourcemap
-    ? `\r\n/*# sourceMappingURL=data:application/json;charset=utf-8;base64,${Buffer.from(
-        inputSourcemap
-      ).toString('base64')} */`
-    : '';
-  const buildResult = await esbuild.build({
+  resolve: RollupCssResolve
+): BuildOptions => {
+  const { sourcemap, minify, targets } = forcedOptions;
+
+  return {
+    // warnings are reported through rollup instead
+    logLevel: 'silent',
     ...userOptions,
+    ...(targets ? { target: targets } : {}),
     sourcemap: sourcemap ? 'external' : false,
     outdir: dirname(inputFilePath),
     outbase: process.cwd(),
     minify,
-    stdin: {
-      contents: `${inputCode}${inlineSourcemap}`,
-      sourcefile: inputFilePath,
-      resolveDir: dirname(inputFilePath),
-      loader: 'css',
-    },
+    entryPoints: [inputFilePath],
     bundle: true,
     write: false,
+    // the output path equals the input path for css files in the working directory, nothing is written so the check can be skipped
+    allowOverwrite: true,
     metafile: true,
     plugins: [
+      {
+        name: 'load-entry',
+        setup(build) {
+          // the entry is loaded from the state instead of the disk, so the same build can be reused for new code
+          build.onResolve({ filter: /.*/ }, ({ kind }) =>
+            kind === 'entry-point' ? { path: inputFilePath, namespace: 'file' } : null
+          );
+          build.onLoad({ filter: /.*/, namespace: 'file' }, ({ path }) =>
+            normalizePathSlashes(path) === inputFilePath
+              ? { contents: state.code, resolveDir: dirname(inputFilePath), loader: 'css' }
+              : null
+          );
+        },
+      },
       {
         name: 'resolve-file-assets',
         setup(build) {
@@ -176,17 +96,13 @@ export const runEsbuild = async (
                   return null;
                 }
 
-                const resolveContext = getResolveContext(kind);
-                const rollupResult = await rollupPluginContext.resolve(pathToResolve, importer);
-                const normalizedRollupResult = normalizeRollupResolveId(
-                  rollupResult,
+                const result = await resolveCssPath(
                   pathToResolve,
-                  resolveContext
+                  importer,
+                  getResolveContext(kind),
+                  resolve,
+                  state.rollupPluginContext
                 );
-                const result =
-                  typeof resolve === 'function'
-                    ? await resolve(pathToResolve, importer, resolveContext, normalizedRollupResult)
-                    : normalizedRollupResult;
 
                 if (result) {
                   const { path, external } = result;
@@ -196,30 +112,20 @@ export const runEsbuild = async (
                     external,
                   };
 
-                  inputs.push(inputItem);
+                  state.inputs.push(inputItem);
 
                   // non external url tokens are always referenced assets
                   // those assets are resolved here and the absolute path to the input asset with a prefix & suffix is placed here as a placeholder
                   // later when we know the output paths we replace this with the correct relative output path
                   if (!external && kind === 'url-token') {
-                    const isInlined = (inputItem.inlined = getIsInlined(path, inline));
-
-                    if (isInlined) {
-                      return {
-                        path,
-                        namespace: 'dataurl',
-                      };
-                    }
+                    // watching for asset changes, the assets are outputted or inlined with their current content
+                    state.watchFiles.push(path);
 
-                    const placeholder = (inputItem.placeholder = `_${Buffer.from(path).toString(
-                      'base64url'
-                    )}`);
-
-                    // watching for asset changes
-                    watchFiles.push(path);
+                    // inlined assets get a placeholder as well, they are only inlined once all css files which use them are known
+                    const placeholder = (inputItem.placeholder = getAssetPlaceholder(path));
 
                     return {
-                      path: `${templateInterpolatePrefix}${templateInterpolateSymbol}${placeholder}${templateInterpolateSuffix}`,
+                      path: getPlaceholderToken(placeholder),
                       external: true, // mark all assets as external so esbuild is not running any loaders
                     };
                   }
@@ -235,17 +141,68 @@ export const runEsbuild = async (
               return null;
             }
           );
-
-          build.onLoad({ filter: /.*/, namespace: 'dataurl' }, async ({ path }) => ({
-            contents: await fs.promises.readFile(path),
-            loader: 'dataurl',
-          }));
         },
       },
     ],
+  };
+};
+
+/**
+ * Disposes the incremental builds of the passed css files or all incremental builds if no files are passed.
+ */
+export const disposeEsbuildContexts = (contexts: EsbuildContexts, filePaths?: string[]) => {
+  (filePaths || Array.from(contexts.keys())).forEach((filePath) => {
+    contexts.get(filePath)?.rebuild.dispose();
+    contexts.delete(filePath);
   });
+};
 
-  const { metafile, outputFiles, warnings, errors } = buildResult;
+/**
+ * Runs esbuild for the passed css file.
+ * @param contexts If passed, the build of the css file is kept alive and reused for subsequent runs of the same file.
+ */
+export const runEsbuild = async (
+  inputFilePath: string,
+  inputCode: string,
+  inputSourcemap: string | undefined,
+  userOptions: BuildOptions,
+  forcedOptions: EsbuildUserForcedOptions,
+  resolve: RollupCssResolve,
+  rollupPluginContext: TransformPluginContext,
+  contexts: EsbuildContexts | null
+) => {
+  const { sourcemap } = forcedOptions;
+  const inlineSourcemap = inputSourcemap
+    ? `\r\n/*# sourceMappingURL=data:application/json;charset=utf-8;base64,${Buffer.from(
+        inputSourcemap
+      ).toString('base64')} */`
+    : '';
+  const state: EsbuildBuildState = {
+    code: `${inputCode}${inlineSourcemap}`,
+    inputs: [],
+    watchFiles: [],
+    rollupPluginContext,
+  };
+  const context = contexts?.get(inputFilePath);
+  let buildResult: BuildResult;
+
+  if (context) {
+    Object.assign(context.state, state);
+    buildResult = await context.rebuild();
+  } else {
+    const buildOptions = getBuildOptions(inputFilePath, state, userOptions, forcedOptions, resolve);
+
+    if (contexts) {
+      const incrementalResult = await esbuild.build({ ...buildOptions, incremental: true });
+      contexts.set(inputFilePath, { state, rebuild: incrementalResult.rebuild });
+      buildResult = incrementalResult;
+    } else {
+      buildResult = await esbuild.build(buildOptions);
+    }
+  }
+
+  const { inputs, watchFiles } = state;
+  const { metafile, outputFiles = [], warnings, errors } = buildResult;
 
   if (errors && errors.length) {
     errors.forEach(({ text }) => {
@@ -254,8 +211,19 @@ export const runEsbuild = async (
   }
 
   if (warnings && warnings.length) {
-    warnings.forEach(({ text }) => {
-      rollupPluginContext.warn(text);
+    warnings.forEach(({ text, location }) => {
+      rollupPluginContext.warn(
+        location
+          ? {
+              message: text,
+              loc: {
+                file: normalizePathSlashes(resolvePath(location.file)),
+                line: location.line,
+                column: location.column,
+              },
+            }
+          : text
+      );
     });
   }
 
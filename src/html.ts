@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { normalizePathSlashes } from './normalizePathSlashes';
+import { getAllImportedCss } from './output';
+import type { OutputBundle, OutputChunk, PluginContext } from 'rollup';
+import type { RollupCssHtml } from './types';
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+const getIntegrity = (
+  source: string | Uint8Array,
+  algorithm: NonNullable<NonNullable<RollupCssHtml>['integrity']>
+) => `${algorithm}-${createHash(algorithm).update(source).digest('base64')}`;
+
+/** Gets the css files of the entry chunks and the css files of their dynamic imports, without duplicates and in order. */
+const getHtmlCssFiles = (bundle: OutputBundle) => {
+  const chunks = Object.values(bundle).filter(({ type }) => type === 'chunk') as OutputChunk[];
+  const entryCss = Array.from(
+    new Set(
+      chunks
+        .filter(({ isEntry }) => isEntry)
+        .map((chunk) => getAllImportedCss(bundle, chunk))
+        .flat()
+    )
+  );
+  const dynamicCss = Array.from(
+    new Set(
+      chunks
+        .filter(({ isDynamicEntry }) => isDynamicEntry)
+        .map((chunk) => getAllImportedCss(bundle, chunk))
+        .flat()
+    )
+  ).filter((cssFileName) => !entryCss.includes(cssFileName));
+
+  return [entryCss, dynamicCss];
+};
+
+/**
+ * Adds the "<link>" tags of the extracted css to the passed html.
+ * The tags are inserted before the closing "</head>" tag, or at the beginning if there is none.
+ */
+const addLinkTags = (
+  html: string,
+  htmlFileName: string,
+  bundle: OutputBundle,
+  { integrity, preload }: NonNullable<RollupCssHtml>,
+  publicPath: string | null
+) => {
+  const [entryCss, dynamicCss] = getHtmlCssFiles(bundle);
+  const getLinkTag = (cssFileName: string, rel: string) => {
+    const cssFile = bundle[cssFileName];
+    const href = `${publicPath || ''}${normalizePathSlashes(
+      path.relative(path.dirname(htmlFileName), cssFileName)
+    )}`;
+    const attributes: [name: string, value: string][] = [['rel', rel]];
+
+    if (rel === 'preload') {
+      attributes.push(['as', 'style']);
+    }
+    attributes.push(['href', href]);
+    if (integrity && cssFile?.type === 'asset') {
+      attributes.push(['integrity', getIntegrity(cssFile.source, integrity)]);
+    }
+
+    return `<link ${attributes
+      .map(([name, value]) => `${name}="${escapeAttribute(value)}"`)
+      .join(' ')}>`;
+  };
+  const linkTags = [
+    ...entryCss.map((cssFileName) => getLinkTag(cssFileName, 'stylesheet')),
+    ...(preload ? dynamicCss.map((cssFileName) => getLinkTag(cssFileName, 'preload')) : []),
+  ];
+
+  if (!linkTags.length) {
+    return html;
+  }
+
+  const headEndIndex = html.search(/<\/head>/i);
+
+  if (headEndIndex === -1) {
+    return `${linkTags.join('\n')}\n${html}`;
+  }
+
+  // the tags are indented one level deeper than the closing "</head>" tag if it is on its own line
+  const lineStartIndex = html.lastIndexOf('\n', headEndIndex - 1) + 1;
+  const indentation = html.slice(lineStartIndex, headEndIndex);
+  const insertIndex = /^[ \t]*$/.test(indentation) ? lineStartIndex : headEndIndex;
+  const tagIndentation = insertIndex === lineStartIndex ? `${indentation}  ` : '';
+
+  return `${html.slice(0, insertIndex)}${linkTags
+    .map((linkTag) => `${tagIndentation}${linkTag}\n`)
+    .join('')}${html.slice(insertIndex)}`;
+};
+
+/**
+ * Adds the "<link>" tags of the extracted css to the html asset in the bundle or emits a new html file generated from the template file.
+ */
+export const emitHtml = async (
+  bundle: OutputBundle,
+  htmlOptions: NonNullable<RollupCssHtml>,
+  publicPath: string | null,
+  rollupPluginContext: PluginContext
+) => {
+  const { template, fileName } = htmlOptions;
+  const htmlAsset = bundle[template];
+
+  if (htmlAsset && htmlAsset.type === 'asset') {
+    htmlAsset.source = addLinkTags(
+      htmlAsset.source.toString(),
+      htmlAsset.fileName,
+      bundle,
+      htmlOptions,
+      publicPath
+    );
+    return;
+  }
+
+  const html = await fs.promises.readFile(template, 'utf8').catch((error: Error) => {
+    throw new Error(`Couldn't read the html template "${template}". (${error})`);
+  });
+  const htmlFileName = fileName || path.basename(template);
+
+  rollupPluginContext.emitFile({
+    type: 'asset',
+    fileName: htmlFileName,
+    source: addLinkTags(html, htmlFileName, bundle, htmlOptions, publicPath),
+  });
+};
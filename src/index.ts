@@ -1,18 +1,57 @@
+import * as fs from 'fs';
 import * as path from 'path';
 import { createFilter } from '@rollup/pluginutils';
 import { pluginName } from './pluginName';
 import { normalizePathSlashes } from './normalizePathSlashes';
-import { runEsbuild } from './esbuild';
+import { runEsbuild, disposeEsbuildContexts } from './esbuild';
+import { runLightningcss } from './lightningcss';
 import { runCssProcessors } from './cssProcessors';
-import { getOutputBasePath, emitAssetCssFiles, emitAssetFiles, emitChunkCssFiles } from './output';
-import { renderCssFiles } from './render';
-import type { Plugin, RenderedChunk } from 'rollup';
+import { resolveTargets } from './targets';
+import { getCssOrder } from './order';
+import {
+  getOutputBasePath,
+  getAssetCssFiles,
+  getSharedCssFiles,
+  getChunkCssFiles,
+  emitAssetFiles,
+  emitCssFiles,
+  setChunksCssMetadata,
+  getChunkCssHash,
+  inlineAssetFiles,
+} from './output';
+import { isEmittedAssetOf, renderChunkFiles } from './render';
+import {
+  getDefaultTransformResult,
+  writeCssModulesDts,
+  getCssMarkerId,
+  isCssMarkerId,
+} from './transform';
+import { injectChunkCss, getInjectedChunksMeta } from './inject';
+import { loadCssCode, getDynamicImportWrapper, renderDynamicImportsCss } from './load';
+import { emitHtml } from './html';
+import { emitManifest } from './manifest';
+import {
+  getCacheOptions,
+  getOptionsHash,
+  getCacheKey,
+  readCacheEntry,
+  writeCacheEntry,
+} from './cache';
+import type { Plugin, RenderedChunk, TransformPluginContext } from 'rollup';
+import type { CssFileMeta, EmittedAssetFileMeta, InlinedAssets } from './output';
+import type { CachedCss } from './cache';
+import type { EsbuildContexts } from './esbuild';
+import type { AssetSources } from './assetTransform';
+import type { CssOrder } from './order';
 import type {
   PluginMeta,
   RollupCssOptions,
   CssForChunks,
   CssForChunksExtract,
   CssForChunksInject,
+  TransformInfo,
+  CacheStats,
+  LightningcssOptions,
 } from './types';
 
 type DeepPartial<T> = {
@@ -20,11 +59,19 @@ type DeepPartial<T> = {
 };
 
 export const defaultOptions: RollupCssOptions = {
+  backend: 'esbuild',
   esbuild: {},
+  lightningcss: {},
+  targets: null,
   include: /\.(css|less|sass|scss|styl|stylus|pcss|postcss|sss)$/,
   exclude: null,
   output: {
     cssForChunks: 'extract',
+    cssForChunksFileNames: '[name].css',
+    cssForChunksShared: false,
+    cssForChunksSharedFileNames: 'shared-[hash].css',
+    cssForDynamicImports: false,
+    manifest: false,
     cssAsAssets: true,
     sourcemap: true,
     minify: false,
@@ -35,21 +82,30 @@ export const defaultOptions: RollupCssOptions = {
     inline: false,
     file: true,
     url: null,
+    transform: {
+      svgo: null,
+      custom: null,
+    },
   },
   processors: {
     sass: /\.(s[ac]ss)$/,
     less: /\.less$/,
     stylus: /\.(styl|stylus)$/,
+    sugarss: /\.sss$/,
+    postcss: /\.(pcss|postcss|sss)$/,
     cssModules: /\.module\.\S+$/,
     custom: null,
   },
   transform: {
-    result: {
-      code: `export default undefined`,
-      map: { mappings: '' },
-    }, // if css modules ? 'export default JSON' : ''
+    result: null,
+    cssModules: {
+      namedExports: false,
+      dts: false,
+    },
   },
   resolve: null,
+  cache: false,
+  html: null,
 };
 
 const getCssForChunksOptions = (
@@ -69,11 +125,19 @@ const getCssForChunksOptions = (
 };
 
 export const RollupCss = ({
+  backend = defaultOptions.backend,
   esbuild: esbuildOptions = defaultOptions.esbuild,
+  lightningcss: lightningcssOptions = defaultOptions.lightningcss,
+  targets = defaultOptions.targets,
   include = defaultOptions.include,
   exclude = defaultOptions.exclude,
   output: {
     cssForChunks = defaultOptions.output.cssForChunks,
+    cssForChunksFileNames = defaultOptions.output.cssForChunksFileNames,
+    cssForChunksShared = defaultOptions.output.cssForChunksShared,
+    cssForChunksSharedFileNames = defaultOptions.output.cssForChunksSharedFileNames,
+    cssForDynamicImports = defaultOptions.output.cssForDynamicImports,
+    manifest = defaultOptions.output.manifest,
     cssAsAssets = defaultOptions.output.cssAsAssets,
     sourcemap = defaultOptions.output.sourcemap,
     minify = defaultOptions.output.minify,
@@ -84,24 +148,120 @@ export const RollupCss = ({
     inline = defaultOptions.assets.inline,
     file = defaultOptions.assets.file,
     url = defaultOptions.assets.url,
+    transform: {
+      svgo = defaultOptions.assets.transform.svgo,
+      custom: customAssetTransform = defaultOptions.assets.transform.custom,
+    } = {},
   } = {},
   processors: {
     sass = defaultOptions.processors.sass,
     less = defaultOptions.processors.less,
     stylus = defaultOptions.processors.stylus,
+    sugarss = defaultOptions.processors.sugarss,
+    postcss = defaultOptions.processors.postcss,
     cssModules = defaultOptions.processors.cssModules,
     custom: customProcessor = defaultOptions.processors.custom,
   } = {},
   transform: {
     //cssProcessors: preprocessors = defaultOptions.transform.cssProcessors,
     result: transformResult = defaultOptions.transform.result,
+    cssModules: {
+      namedExports = defaultOptions.transform.cssModules.namedExports,
+      dts = defaultOptions.transform.cssModules.dts,
+    } = {},
   } = {},
   resolve = defaultOptions.resolve,
+  cache = defaultOptions.cache,
+  html = defaultOptions.html,
 }: DeepPartial<RollupCssOptions> = {}): Plugin => {
   const filter = createFilter(include, exclude);
-  const assetOptions = { preserveDir, publicPath, inline, file, url };
-  const esbuildForcedOptions = { sourcemap, minify };
+  const assetOptions = {
+    preserveDir,
+    publicPath,
+    inline,
+    file,
+    url,
+    transform: { svgo, custom: customAssetTransform },
+  };
+  const backendForcedOptions = { sourcemap, minify, targets: null as string[] | null };
+  const cssModulesOptions = { namedExports, dts };
   const [extract, inject] = getCssForChunksOptions(cssForChunks);
+  const builtInProcessorOptions = { sass, less, stylus, sugarss, postcss, cssModules };
+  const cacheOptions = getCacheOptions(cache as RollupCssOptions['cache']);
+  const cacheStats: CacheStats = { hits: 0, misses: 0 };
+  const esbuildContexts: EsbuildContexts = new Map();
+  const assetSources: AssetSources = new Map();
+  let cssOrder: CssOrder = new Map();
+  let inlinedAssets: InlinedAssets = new Map();
+  const optionsHash = getOptionsHash({
+    backend,
+    esbuildOptions,
+    lightningcssOptions,
+    targets,
+    backendForcedOptions,
+    assetOptions,
+    builtInProcessorOptions,
+    customProcessor,
+    resolve,
+  });
+
+  const processCss = async (
+    css: string,
+    filePath: string,
+    ctx: TransformPluginContext
+  ): Promise<CachedCss> => {
+    // 1. cssProcessors (sass | less | stylus | sugarss | postcss | cssModules | ...)
+    const {
+      css: cssProcessorsCss,
+      map: cssProcessorsMap,
+      watchFiles: cssProcessorsWatchFiles,
+      data: cssProcessorsData,
+    } = await runCssProcessors(
+      filePath,
+      css,
+      sourcemap,
+      builtInProcessorOptions,
+      customProcessor,
+      resolve,
+      ctx
+    );
+
+    // 2. backend: esbuild | lightningcss (url() | @import | minify)
+    const {
+      css: backendCss,
+      map: backendMap,
+      watchFiles: backendWatchFiles,
+      inputs,
+    } = backend === 'lightningcss'
+      ? await runLightningcss(
+          filePath,
+          cssProcessorsCss,
+          cssProcessorsMap,
+          lightningcssOptions as LightningcssOptions,
+          backendForcedOptions,
+          resolve,
+          ctx
+        )
+      : await runEsbuild(
+          filePath,
+          cssProcessorsCss,
+          cssProcessorsMap,
+          esbuildOptions,
+          backendForcedOptions,
+          resolve,
+          ctx,
+          // the builds are only kept alive in watch mode, where they are reused for each rebuild
+          ctx.meta.watchMode ? esbuildContexts : null
+        );
+
+    return {
+      css: backendCss,
+      map: backendMap,
+      inputs,
+      data: cssProcessorsData,
+      watchFiles: [...cssProcessorsWatchFiles, ...backendWatchFiles],
+    };
+  };
 
   const importMap = new Map<string, string>();
 
@@ -109,6 +269,10 @@ export const RollupCss = ({
     name: pluginName,
 
     async resolveId(source, importer, options) {
+      if (isCssMarkerId(source)) {
+        return source;
+      }
+
       const id = importMap.get(source);
 
       if (id) {
@@ -119,119 +283,301 @@ export const RollupCss = ({
       }
     },
 
+    load(id) {
+      // the marker keeps the css in the chunk, it has no code which would be left in the output
+      if (isCssMarkerId(id)) {
+        return {
+          code: '',
+          moduleSideEffects: 'no-treeshake',
+        };
+      }
+    },
+
     async transform(css, id) {
       if (!filter(id)) {
         return;
       }
       const filePath = normalizePathSlashes(id);
 
-      // 1. cssProcessors (sass | less | stylus | cssModules | ...)
+      // 1. + 2. cssProcessors and backend (or their cached result)
+      const cacheKey = cacheOptions && getCacheKey(filePath, css, optionsHash);
+      const cachedCss = cacheOptions && (await readCacheEntry(cacheOptions.dir, cacheKey!));
       const {
-        css: cssProcessorsCss,
-        map: cssProcessorsMap,
-        watchFiles: cssProcessorsWatchFiles,
+        css: backendCss,
+        map: backendMap,
+        inputs,
         data: cssProcessorsData,
-      } = await runCssProcessors(
-        filePath,
-        css,
-        sourcemap,
-        {
-          sass,
-          less,
-          stylus,
-          cssModules,
-        },
-        customProcessor,
-        resolve,
-        this
-      );
+        watchFiles,
+      } = cachedCss || (await processCss(css, filePath, this));
 
-      // 2. esbuild (url() | @import | minify)
-      const {
-        css: esbuildCss,
-        map: esbuildMap,
-        watchFiles: esbuildWatchFiles,
-        inputs,
-      } = await runEsbuild(
-        filePath,
-        cssProcessorsCss,
-        cssProcessorsMap,
-        esbuildOptions,
-        esbuildForcedOptions,
-        assetOptions,
-        resolve,
-        this
-      );
+      if (cacheOptions) {
+        if (cachedCss) {
+          cacheStats.hits++;
+        } else {
+          cacheStats.misses++;
+          await writeCacheEntry(cacheOptions.dir, cacheKey!, {
+            css: backendCss,
+            map: backendMap,
+            inputs,
+            data: cssProcessorsData,
+            watchFiles,
+          }).catch((error: Error) => {
+            this.warn(`Couldn't write the cache entry for "${filePath}". (${error})`);
+          });
+        }
+      }
 
       // 3. watch files
-      [...cssProcessorsWatchFiles, ...esbuildWatchFiles].forEach((watchFile) => {
+      watchFiles.forEach((watchFile) => {
         if (path.isAbsolute(watchFile)) {
           this.addWatchFile(watchFile);
         }
       });
 
       // 4. JS transformation
+      const transformInfo: TransformInfo = {
+        path: filePath,
+        css: backendCss,
+        map: backendMap,
+        inputs,
+        data: cssProcessorsData,
+      };
+      const defaultTransformResult = getDefaultTransformResult(transformInfo, cssModulesOptions);
       const {
         code: transformedCode,
         map: transformedMap,
         meta,
         moduleSideEffects,
       } = typeof transformResult === 'function'
-        ? await transformResult({ esbuildCss, esbuildMap, cssProcessorData: cssProcessorsData })
-        : transformResult;
+        ? await transformResult(transformInfo, defaultTransformResult)
+        : transformResult || defaultTransformResult;
+
+      // 5. css modules typescript declarations
+      await writeCssModulesDts(transformInfo, cssModulesOptions);
 
       //const token = `\0^<<^=${Buffer.from(id).toString('base64url')}^>>^`;
       //importMap.set(token, id);
 
       return {
         // code: `export { default } from ${JSON.stringify(token)}`,
-        code: `export default {}`,
+        // the marker import is appended, so the sourcemap of the transformed code stays valid
+        code: `${transformedCode}\nimport ${JSON.stringify(getCssMarkerId(id))};`,
         map: transformedMap,
         meta: {
           [pluginName]: {
             ...(meta || {}),
             id: filePath,
-            css: esbuildCss,
-            map: esbuildMap,
+            css: backendCss,
+            map: backendMap,
             inputs,
           } as PluginMeta,
         },
-        moduleSideEffects: moduleSideEffects ?? 'no-treeshake',
+        moduleSideEffects: moduleSideEffects ?? true,
       };
     },
-    async renderChunk(code: string, chunk: RenderedChunk) {
+    async buildStart() {
+      cacheStats.hits = 0;
+      cacheStats.misses = 0;
+      // the assets can have changed since the last build in watch mode
+      assetSources.clear();
+
+      // the targets are only resolved once, also in watch mode
+      if (targets && !backendForcedOptions.targets) {
+        backendForcedOptions.targets = await resolveTargets(
+          targets as NonNullable<RollupCssOptions['targets']>
+        ).catch((error: Error) => this.error(`Couldn't resolve the targets. (${error.message})`));
+      }
+
+      // a html template file is watched, so changes to it regenerate the html file
+      if (html && fs.existsSync(html.template)) {
+        this.addWatchFile(path.resolve(html.template));
+      }
+    },
+    async buildEnd(error) {
+      cacheOptions?.stats?.({ ...cacheStats });
+
+      // the order and the inlined assets only depend on the module graph, so they are the same for all outputs
+      if (!error) {
+        cssOrder = getCssOrder(this);
+        inlinedAssets = await inlineAssetFiles(assetOptions, assetSources, this).catch(
+          (inlineError: Error) => this.error(inlineError)
+        );
+      }
+    },
+    watchChange(id, { event }) {
+      if (event === 'delete') {
+        disposeEsbuildContexts(esbuildContexts, [normalizePathSlashes(id)]);
+      }
+    },
+    closeWatcher() {
+      disposeEsbuildContexts(esbuildContexts);
+    },
+    closeBundle() {
+      if (!this.meta.watchMode) {
+        disposeEsbuildContexts(esbuildContexts);
+      }
+    },
+    renderDynamicImport({ format, targetModuleId }) {
+      // the css of dynamically imported chunks is only known for extracted css
+      if (cssForDynamicImports && extract && format === 'es' && targetModuleId) {
+        return getDynamicImportWrapper(targetModuleId);
+      }
       return null;
     },
-    async generateBundle(_, bundle) {
-      const outputBasePath = getOutputBasePath(Array.from(this.getModuleIds()));
+    augmentChunkHash(chunk) {
+      // the css is added after the chunk is hashed, it is injected in "renderChunk" or loaded by the dynamic imports of other chunks.
+      // the hashes of dynamically imported chunks are part of the hashes of the importing chunks
+      if (inject || (cssForDynamicImports && extract)) {
+        const cssHash = getChunkCssHash(Object.keys(chunk.modules), cssOrder, this);
+        return cssHash
+          ? `${cssHash}${typeof inject === 'function' ? String(inject) : ''}`
+          : undefined;
+      }
+    },
+    async renderChunk(code: string, chunk: RenderedChunk, { format }) {
+      const injectCode = inject
+        ? injectChunkCss(chunk, inject, cssOrder, format, inlinedAssets, this)
+        : null;
+      const loadCode =
+        cssForDynamicImports && extract && format === 'es' && chunk.dynamicImports.length
+          ? loadCssCode
+          : null;
+      const appendedCode = [injectCode, loadCode].filter(Boolean);
 
-      // 1. build asset css files
-      const emittedAssetCssFilesMeta = cssAsAssets
-        ? emitAssetCssFiles(outputBasePath, assetOptions, this)
-        : [];
-
-      // 2. build chunk css files
-      const emittedChunkCssFilesMeta = extract
-        ? emitChunkCssFiles(bundle, emittedAssetCssFilesMeta, extract, this)
-        : [];
-
-      // 3. build (only used) asset files
-      const emittedCssFilesMeta = [...emittedAssetCssFilesMeta, ...emittedChunkCssFilesMeta];
-      const outputAssetFilesMeta = await emitAssetFiles(
-        outputBasePath,
-        emittedCssFilesMeta
+      // the code is appended so the positions of the original code (and thus its sourcemap) stay the same
+      return appendedCode.length
+        ? {
+            code: [code, ...appendedCode].join('\n'),
+            map: null,
+          }
+        : null;
+    },
+    async generateBundle(outputOptions, bundle) {
+      // the css of dynamic imports is loaded by the imports themselves instead of being part of the css of the importing chunks
+      const loadDynamicImportsCss =
+        cssForDynamicImports && !!extract && outputOptions.format === 'es';
+      const outputBasePath = getOutputBasePath(Array.from(this.getModuleIds()));
+      const emittedAssetFilesMeta: EmittedAssetFileMeta[] = [];
+      const emitUsedAssetFiles = async (cssFilesMeta: Pick<CssFileMeta, 'substitutions'>[]) => {
+        const ids = cssFilesMeta
           .map(({ substitutions }) => (substitutions || []).map(([, id]) => id))
-          .flat(),
-        assetOptions,
-        this
-      );
-
-      // 4. render files (substitute placeholders)
-      await renderCssFiles(emittedCssFilesMeta, outputAssetFilesMeta, bundle, assetOptions).catch(
-        (error: Error) => {
-          this.error(error);
+          .flat()
+          .filter(
+            (id) =>
+              !inlinedAssets.has(id) &&
+              !emittedAssetFilesMeta.some((assetMeta) => isEmittedAssetOf(assetMeta, id))
+          );
+
+        emittedAssetFilesMeta.push(
+          ...(await emitAssetFiles(
+            outputBasePath,
+            ids,
+            emittedAssetFilesMeta,
+            assetOptions,
+            assetSources,
+            this
+          ))
+        );
+      };
+
+      try {
+        // 1. build asset css files (and their used asset files)
+        const assetCssFilesMeta = cssAsAssets
+          ? getAssetCssFiles(outputBasePath, assetOptions, this)
+          : [];
+        await emitUsedAssetFiles(assetCssFilesMeta);
+        const emittedAssetCssFilesMeta = await emitCssFiles(
+          assetCssFilesMeta,
+          emittedAssetFilesMeta,
+          inlinedAssets,
+          outputOptions,
+          assetOptions,
+          this
+        );
+
+        // 2. build shared css files (and their used asset files)
+        const sharedCssFilesMeta =
+          extract && cssForChunksShared
+            ? await getSharedCssFiles(
+                bundle,
+                cssForChunksSharedFileNames,
+                cssOrder,
+                loadDynamicImportsCss,
+                this
+              )
+            : [];
+        await emitUsedAssetFiles(sharedCssFilesMeta);
+        const emittedSharedCssFilesMeta = await emitCssFiles(
+          sharedCssFilesMeta,
+          emittedAssetFilesMeta,
+          inlinedAssets,
+          outputOptions,
+          assetOptions,
+          this
+        );
+
+        // 3. build chunk css files (and their used asset files)
+        const chunkCssFilesMeta = extract
+          ? await getChunkCssFiles(
+              bundle,
+              emittedAssetCssFilesMeta,
+              cssForChunksShared ? emittedSharedCssFilesMeta : null,
+              extract,
+              cssForChunksFileNames,
+              cssOrder,
+              loadDynamicImportsCss,
+              this
+            )
+          : [];
+        await emitUsedAssetFiles(chunkCssFilesMeta);
+        const emittedChunkCssFilesMeta = await emitCssFiles(
+          chunkCssFilesMeta,
+          emittedAssetFilesMeta,
+          inlinedAssets,
+          outputOptions,
+          assetOptions,
+          this
+        );
+        setChunksCssMetadata(
+          bundle,
+          emittedChunkCssFilesMeta,
+          cssForChunksShared ? emittedSharedCssFilesMeta : null,
+          cssOrder,
+          loadDynamicImportsCss,
+          this
+        );
+        if (loadDynamicImportsCss) {
+          await renderDynamicImportsCss(bundle);
+        }
+        if (html) {
+          await emitHtml(bundle, html, publicPath, this);
+        }
+
+        // 4. render chunks with injected css (and emit their used asset files)
+        const injectedChunksMeta = getInjectedChunksMeta(bundle, this);
+        await emitUsedAssetFiles(injectedChunksMeta);
+        await renderChunkFiles(
+          injectedChunksMeta,
+          emittedAssetFilesMeta,
+          inlinedAssets,
+          bundle,
+          assetOptions
+        );
+
+        // 5. css manifest
+        if (manifest) {
+          emitManifest(
+            typeof manifest === 'string' ? manifest : 'css-manifest.json',
+            bundle,
+            emittedAssetCssFilesMeta,
+            emittedAssetFilesMeta,
+            cssOrder,
+            this
+          );
         }
-      );
+      } catch (error) {
+        this.error(error as Error);
+      }
     },
   };
 
@@ -0,0 +1,153 @@
+import { cssSeparator, getPluginMetas, getSubstitutions } from './output';
+import { sortByCssOrder } from './order';
+import { printUrl, splitAtPlaceholderTokens, substitutePlaceholderTokens } from './render';
+import type { ModuleFormat, OutputBundle, OutputChunk, PluginContext, RenderedChunk } from 'rollup';
+import type { EmittedCssFileMeta, InlinedAssets } from './output';
+import type { CssOrder } from './order';
+import type {
+  CssForChunksInject,
+  CssForChunksInjectDependency,
+  CssForChunksInjectResult,
+} from './types';
+
+const injectAttribute = 'data-rollup-css';
+
+/**
+ * Gets the js expression of the url of the executed chunk, so the urls in the css are resolved against the chunk instead of the document (e.g. if the chunk is embedded by a third party).
+ * The code is appended outside of the format wrapper (e.g. "define" or "System.register"), so the module objects of the loaders aren't available.
+ * Like rollup does for "import.meta.url", chunks which aren't executed by a "<script>" element (e.g. evaluated by a loader) are located by their file name relative to the document.
+ */
+const getChunkUrlCode = (format: ModuleFormat, fileName: string) =>
+  format === 'es'
+    ? 'import.meta.url'
+    : `document.currentScript && document.currentScript.src || new URL(${JSON.stringify(
+        fileName
+      )}, document.baseURI).href`;
+
+/**
+ * Gets the js expression of the passed css.
+ * The placeholders of assets are resolved against the "base" variable at runtime, they are substituted with urls relative to the chunk later.
+ */
+const getCssExpression = (css: string) =>
+  splitAtPlaceholderTokens(css)
+    .map((part, index) =>
+      index % 2 ? `new URL(${JSON.stringify(part)}, base).href` : JSON.stringify(part)
+    )
+    .filter((expression) => expression !== '""')
+    .join(' + ');
+
+const getInjectCode = (
+  css: string,
+  { name: chunkName, fileName }: RenderedChunk,
+  format: ModuleFormat
+) =>
+  css.length
+    ? [
+        '(function () {',
+        "  if (typeof document === 'undefined') return;",
+        ...(splitAtPlaceholderTokens(css).length > 1
+          ? [`  var base = ${getChunkUrlCode(format, fileName)};`]
+          : []),
+        "  var style = document.createElement('style');",
+        `  style.setAttribute(${JSON.stringify(injectAttribute)}, ${JSON.stringify(chunkName)});`,
+        `  style.textContent = ${getCssExpression(css)};`,
+        '  document.head.appendChild(style);',
+        '})();',
+      ].join('\n')
+    : '';
+
+/**
+ * Generates the js code which injects the css of the passed chunk at runtime.
+ * Only the modules of the chunk itself are considered, dynamic chunks are injecting their own css once they are loaded.
+ * @returns The code which shall be appended to the chunk or null if nothing shall be injected.
+ */
+export const injectChunkCss = (
+  chunk: RenderedChunk,
+  inject: CssForChunksInject,
+  cssOrder: CssOrder,
+  format: ModuleFormat,
+  inlinedAssets: InlinedAssets,
+  rollupPluginContext: PluginContext
+): string | null => {
+  const { modules } = chunk;
+  const chunkPluginMetas = sortByCssOrder(
+    getPluginMetas(Object.keys(modules), rollupPluginContext),
+    cssOrder
+  );
+
+  if (!chunkPluginMetas.length) {
+    return null;
+  }
+
+  const dataUrls = new Map(
+    chunkPluginMetas
+      .map(({ inputs }) => getSubstitutions(inputs))
+      .flat()
+      .filter(([, id]) => inlinedAssets.has(id))
+      .map(([placeholder, id]) => [placeholder, printUrl(inlinedAssets.get(id)!)])
+  );
+  // the data urls of inlined assets are part of the css, they aren't resolved against the chunk url
+  const inlineAssets = (css: string) =>
+    substitutePlaceholderTokens(css, (placeholder) => dataUrls.get(placeholder)).code;
+  const defaultCss = chunkPluginMetas.map(({ css }) => css).join(cssSeparator);
+  const suggestedResult: Required<CssForChunksInjectResult> = {
+    css: defaultCss,
+    code: getInjectCode(inlineAssets(defaultCss), chunk, format),
+  };
+  const getCssDependencies = (): CssForChunksInjectDependency[] =>
+    chunkPluginMetas.map((meta) => ({
+      inputFile: meta.id,
+      inputs: meta.inputs,
+      css: meta.css,
+      map: meta.map,
+    }));
+  const getInjectInfo = (): Required<CssForChunksInjectResult> => {
+    const result =
+      typeof inject === 'function'
+        ? inject(chunk, getCssDependencies(), suggestedResult) || { css: '', code: '' }
+        : suggestedResult;
+    if (result === true) {
+      return suggestedResult;
+    }
+    const { css = suggestedResult.css, code = getInjectCode(inlineAssets(css), chunk, format) } =
+      result;
+    return {
+      css,
+      code,
+    };
+  };
+
+  const { code } = getInjectInfo();
+
+  return code.length ? code : null;
+};
+
+/**
+ * Gets the meta information of all chunks which contain placeholders of css modules.
+ * Those chunks have to be rendered the same way as css files are, so the placeholders are substituted with the final asset urls.
+ */
+export const getInjectedChunksMeta = (
+  bundle: OutputBundle,
+  rollupPluginContext: PluginContext
+): EmittedCssFileMeta[] =>
+  (Object.values(bundle).filter(({ type }) => type === 'chunk') as OutputChunk[])
+    .map(({ name, fileName, modules, code }) => {
+      const substitutions = getSubstitutions(
+        getPluginMetas(Object.keys(modules), rollupPluginContext)
+          .map(({ inputs }) => inputs)
+          .flat()
+      ).filter(([placeholder]) => code.includes(placeholder));
+
+      return substitutions.length
+        ? {
+            id: fileName,
+            emitName: name,
+            emitDefaultName: name,
+            emitFileName: fileName,
+            source: code,
+            substitutions,
+            injected: true,
+          }
+        : null;
+    })
+    .filter(Boolean) as EmittedCssFileMeta[];
@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { normalizePathSlashes } from './normalizePathSlashes';
+import { getAssetPlaceholder, getPlaceholderToken, printUrl } from './render';
+import { isExternalUrl, resolveCssPath } from './resolve';
+import { normalizeSourcemapSources, shiftSourcemapColumns } from './sourcemap';
+import { getLightningcssTargets } from './targets';
+import type { ExistingRawSourceMap, TransformPluginContext } from 'rollup';
+import type { Dependency } from 'lightningcss';
+import type { SourceReplacement } from './sourcemap';
+import type { RollupCssResolve, CssInputItem, LightningcssOptions } from './types';
+
+interface LightningcssUserForcedOptions {
+  sourcemap: boolean;
+  minify: boolean;
+  targets: string[] | null;
+}
+
+/**
+ * Replaces the quoted placeholders of the dependencies with their replacement.
+ * @returns The code with the replaced placeholders and a description of each replacement.
+ */
+const replaceDependencyPlaceholders = (code: string, replacements: Map<string, string>) => {
+  const sourceReplacements: SourceReplacement[] = [];
+  let line = 0;
+  let lineStart = 0;
+  let lastIndex = 0;
+  let result = '';
+
+  if (replacements.size) {
+    const regExp = new RegExp(
+      `"(${Array.from(replacements.keys())
+        .map((placeholder) => placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('|')})"`,
+      'g'
+    );
+    let match: RegExpExecArray | null;
+
+    while ((match = regExp.exec(code))) {
+      const { index } = match;
+      const [token, placeholder] = match;
+      const replacement = replacements.get(placeholder)!;
+
+      for (let i = lineStart; i < index; i++) {
+        if (code[i] === '\n') {
+          line++;
+          lineStart = i + 1;
+        }
+      }
+
+      sourceReplacements.push({
+        line,
+        column: index - lineStart,
+        length: token.length,
+        replacementLength: replacement.length,
+      });
+      result += `${code.slice(lastIndex, index)}${replacement}`;
+      lastIndex = index + token.length;
+    }
+  }
+
+  return {
+    code: `${result}${code.slice(lastIndex)}`,
+    sourceReplacements,
+  };
+};
+
+export const runLightningcss = async (
+  inputFilePath: string,
+  inputCode: string,
+  inputSourcemap: string | undefined,
+  userOptions: LightningcssOptions,
+  forcedOptions: LightningcssUserForcedOptions,
+  resolve: RollupCssResolve,
+  rollupPluginContext: TransformPluginContext
+) => {
+  const inputs: CssInputItem[] = [];
+  const watchFiles: string[] = [];
+  const { sourcemap, minify, targets } = forcedOptions;
+  const projectRoot = process.cwd();
+  const { default: lightningcss } = (await import('lightningcss').catch(() => null)) || {};
+
+  if (!lightningcss) {
+    rollupPluginContext.error(
+      'Please install the "lightningcss" package to use it as the backend.'
+    );
+  }
+
+  const bundleResult = await lightningcss
+    .bundleAsync({
+      ...userOptions,
+      targets: targets ? getLightningcssTargets(targets) : userOptions.targets,
+      filename: inputFilePath,
+      projectRoot,
+      minify,
+      sourceMap: sourcemap,
+      inputSourceMap: inputSourcemap,
+      analyzeDependencies: { preserveImports: true },
+      resolver: {
+        read: (filePath) =>
+          normalizePathSlashes(filePath) === inputFilePath
+            ? inputCode
+            : fs.promises.readFile(filePath, 'utf8'),
+        async resolve(pathToResolve, importer) {
+          const result = isExternalUrl(pathToResolve)
+            ? null
+            : await resolveCssPath(
+                pathToResolve,
+                importer,
+                '@import',
+                resolve,
+                rollupPluginContext
+              );
+
+          if (result) {
+            const { path: resolvedPath, external } = result;
+
+            inputs.push({ path: resolvedPath, external });
+
+            return external ? { external: resolvedPath } : resolvedPath;
+          }
+
+          return isExternalUrl(pathToResolve)
+            ? { external: pathToResolve }
+            : path.resolve(path.dirname(importer), pathToResolve);
+        },
+      },
+    })
+    .catch((error: Error) => {
+      rollupPluginContext.error(`Lightning CSS: Couldn't compile "${inputFilePath}". (${error})`);
+    });
+
+  const { code, map, dependencies = [], warnings } = bundleResult;
+
+  warnings.forEach(({ message, loc }) => {
+    rollupPluginContext.warn(
+      loc
+        ? {
+            message,
+            loc: {
+              file: normalizePathSlashes(path.resolve(projectRoot, loc.filename)),
+              line: loc.line,
+              column: loc.column,
+            },
+          }
+        : message
+    );
+  });
+
+  // the placeholders of the dependencies are replaced the same way esbuild resolves them
+  const replacements = new Map<string, string>();
+  for (const dependency of dependencies as Dependency[]) {
+    if (dependency.type === 'import') {
+      const { url: importUrl, placeholder } = dependency;
+      replacements.set(placeholder, JSON.stringify(importUrl));
+    }
+    if (dependency.type === 'url') {
+      const { url: urlToResolve, placeholder, loc } = dependency;
+      // external urls are kept as they are, the same way esbuild does it
+      const result = isExternalUrl(urlToResolve)
+        ? null
+        : await resolveCssPath(
+            urlToResolve,
+            path.resolve(projectRoot, loc.filePath),
+            'url',
+            resolve,
+            rollupPluginContext
+          );
+      let replacement = urlToResolve;
+
+      if (result) {
+        const { path: resolvedPath, external } = result;
+        const inputItem: CssInputItem = { path: resolvedPath, external };
+
+        inputs.push(inputItem);
+
+        if (external) {
+          replacement = resolvedPath;
+        } else {
+          // watching for asset changes, the assets are outputted or inlined with their current content
+          watchFiles.push(resolvedPath);
+
+          // inlined assets get a placeholder as well, they are only inlined once all css files which use them are known
+          inputItem.placeholder = getAssetPlaceholder(resolvedPath);
+          replacement = getPlaceholderToken(inputItem.placeholder);
+        }
+      }
+
+      replacements.set(placeholder, printUrl(replacement));
+    }
+  }
+
+  const { code: css, sourceReplacements } = replaceDependencyPlaceholders(
+    Buffer.from(code).toString(),
+    replacements
+  );
+  const rawMap = map
+    ? normalizeSourcemapSources(
+        JSON.parse(Buffer.from(map).toString()) as ExistingRawSourceMap,
+        projectRoot
+      )
+    : undefined;
+
+  return {
+    inputs,
+    css,
+    map: rawMap && (await shiftSourcemapColumns(rawMap, sourceReplacements)),
+    watchFiles,
+  };
+};
@@ -0,0 +1,102 @@
+import * as path from 'path';
+import { normalizePathSlashes } from './normalizePathSlashes';
+import { getPlaceholderToken, substitutePlaceholderTokens } from './render';
+import { getAllImportedCss } from './output';
+import { shiftSourcemapColumns } from './sourcemap';
+import type { OutputBundle, OutputChunk } from 'rollup';
+
+const loadCssFunctionName = '__rollupCssLoad';
+
+const dynamicImportPlaceholderPrefix = '_css_';
+
+/** The placeholder of the css files of a dynamically imported module, it is substituted once the css files are emitted. */
+const getDynamicImportPlaceholder = (moduleId: string) =>
+  `${dynamicImportPlaceholderPrefix}${Buffer.from(moduleId).toString('base64url')}`;
+
+/** Gets the id of the dynamically imported module from its placeholder, or null if the placeholder belongs to something else. */
+const getDynamicImportModuleId = (placeholder: string) =>
+  placeholder.startsWith(dynamicImportPlaceholderPrefix)
+    ? Buffer.from(placeholder.slice(dynamicImportPlaceholderPrefix.length), 'base64url').toString()
+    : null;
+
+/**
+ * The runtime function which loads the passed css files with "<link>" elements before the passed import is executed.
+ * The css files are passed as a single string, so the placeholder can be substituted inside of a string literal.
+ */
+export const loadCssCode = [
+  `function ${loadCssFunctionName}(hrefs, base, load) {`,
+  "  if (!hrefs || typeof document === 'undefined') return load();",
+  '  return Promise.all(',
+  "    hrefs.split('|').map(function (href) {",
+  '      var url = new URL(href, base).href;',
+  '      for (var i = 0; i < document.styleSheets.length; i++) {',
+  '        if (document.styleSheets[i].href === url) return;',
+  '      }',
+  '      return new Promise(function (resolve, reject) {',
+  "        var link = document.createElement('link');",
+  "        link.rel = 'stylesheet';",
+  '        link.href = url;',
+  '        link.onload = resolve;',
+  '        link.onerror = function () {',
+  `          reject(new Error('Couldn\\'t load the css file "' + url + '".'));`,
+  '        };',
+  '        document.head.appendChild(link);',
+  '      });',
+  '    })',
+  '  ).then(load);',
+  '}',
+].join('\n');
+
+/**
+ * Gets the code which wraps the dynamic import of the passed module, so its css files are loaded before the import resolves.
+ */
+export const getDynamicImportWrapper = (targetModuleId: string) => ({
+  left: `${loadCssFunctionName}("${getPlaceholderToken(
+    getDynamicImportPlaceholder(targetModuleId)
+  )}", import.meta.url, function () { return import(`,
+  right: '); })',
+});
+
+/**
+ * Substitutes the placeholders of the dynamic import wrappers with the css files of the imported chunks.
+ * The css file urls are relative to the importing chunk. Imports of modules which aren't part of any chunk load no css.
+ * The sourcemaps of the chunks are shifted, because the css file urls differ in length from the placeholders.
+ */
+export const renderDynamicImportsCss = (bundle: OutputBundle) => {
+  const chunks = Object.values(bundle).filter(({ type }) => type === 'chunk') as OutputChunk[];
+
+  return Promise.all(
+    chunks.map(async (chunk) => {
+      const { code, replacements } = substitutePlaceholderTokens(chunk.code, (placeholder) => {
+        const moduleId = getDynamicImportModuleId(placeholder);
+
+        if (moduleId === null) {
+          return undefined;
+        }
+
+        // the imported module isn't necessarily the facade of its chunk, e.g. because of manual chunks
+        const dynamicChunk = chunks.find(({ modules }) => moduleId in modules);
+        const hrefs = dynamicChunk
+          ? getAllImportedCss(bundle, dynamicChunk)
+              .map((cssFileName) =>
+                encodeURI(
+                  normalizePathSlashes(path.relative(path.dirname(chunk.fileName), cssFileName))
+                )
+              )
+              .join('|')
+          : '';
+
+        return JSON.stringify(hrefs).slice(1, -1);
+      });
+
+      chunk.code = code;
+      if (chunk.map) {
+        const { sources, sourcesContent, names, mappings } = await shiftSourcemapColumns(
+          chunk.map,
+          replacements
+        );
+        Object.assign(chunk.map, { sources, sourcesContent, names, mappings });
+      }
+    })
+  );
+};
@@ -0,0 +1,140 @@
+import * as path from 'path';
+import { normalizePathSlashes } from './normalizePathSlashes';
+import { getPluginMetas } from './output';
+import { isEmittedAssetOf } from './render';
+import { sortByCssOrder } from './order';
+import type { OutputBundle, OutputChunk, PluginContext } from 'rollup';
+import type { EmittedAssetFileMeta, EmittedCssFileMeta } from './output';
+import type { CssOrder } from './order';
+
+interface ManifestChunk {
+  /** The output file name of the chunk. */
+  file: string;
+  name: string;
+  isEntry: boolean;
+  isDynamicEntry: boolean;
+  /** The css files the chunk needs, in the order they have to be loaded. */
+  importedCss: string[];
+  /** The css source files which are part of the chunk, in the order of their css. */
+  sources: string[];
+}
+
+interface ManifestCssInput {
+  path: string;
+  /** The output file name of the input. Null for inputs which aren't emitted (e.g. inlined or bundled inputs). */
+  file: string | null;
+  external: boolean;
+  inlined: boolean;
+}
+
+interface ManifestCss {
+  /** The output file name of the css asset file. Null if css isn't outputted as assets. */
+  file: string | null;
+  /** The keys of the chunks the css file is part of. */
+  chunks: string[];
+  inputs: ManifestCssInput[];
+}
+
+interface Manifest {
+  chunks: Record<string, ManifestChunk>;
+  css: Record<string, ManifestCss>;
+}
+
+// manifest paths are relative to the working directory, so the manifest is the same on every machine
+const getManifestPath = (filePath: string) =>
+  normalizePathSlashes(path.relative(process.cwd(), filePath));
+
+const getChunkKey = ({ facadeModuleId, fileName }: OutputChunk) =>
+  facadeModuleId ? getManifestPath(facadeModuleId) : `_${fileName}`;
+
+const sortByKey = <T>(record: Record<string, T>) =>
+  Object.keys(record)
+    .sort()
+    .reduce((sorted, key) => {
+      sorted[key] = record[key];
+      return sorted;
+    }, {} as Record<string, T>);
+
+/**
+ * Generates the manifest which describes the css source files, their outputs and the chunks they belong to.
+ * All keys and unordered lists are sorted, so the manifest is deterministic.
+ */
+const getManifest = (
+  bundle: OutputBundle,
+  assetCssFiles: EmittedCssFileMeta[],
+  assetFiles: EmittedAssetFileMeta[],
+  cssOrder: CssOrder,
+  rollupPluginContext: PluginContext
+): Manifest => {
+  const chunks: Record<string, ManifestChunk> = {};
+  const css: Record<string, ManifestCss> = {};
+  const bundleChunks = Object.values(bundle).filter(
+    ({ type }) => type === 'chunk'
+  ) as OutputChunk[];
+
+  bundleChunks.forEach((chunk) => {
+    const { fileName, name, isEntry, isDynamicEntry, modules, cssMetadata } = chunk;
+    const chunkKey = getChunkKey(chunk);
+    const pluginMetas = sortByCssOrder(
+      getPluginMetas(Object.keys(modules), rollupPluginContext),
+      cssOrder
+    );
+
+    pluginMetas.forEach(({ id, inputs }) => {
+      const cssKey = getManifestPath(id);
+
+      css[cssKey] = css[cssKey] || {
+        file: assetCssFiles.find((assetCssFile) => assetCssFile.id === id)?.emitFileName || null,
+        chunks: [],
+        inputs: inputs
+          .map(({ path: inputPath, external, inlined }) => ({
+            path: external ? inputPath : getManifestPath(inputPath),
+            file:
+              assetFiles.find((assetFile) => isEmittedAssetOf(assetFile, inputPath))
+                ?.emitFileName || null,
+            external,
+            inlined: !!inlined,
+          }))
+          // compared by code units, so the order doesn't depend on the locale
+          .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0)),
+      };
+      css[cssKey].chunks.push(chunkKey);
+    });
+
+    chunks[chunkKey] = {
+      file: fileName,
+      name,
+      isEntry,
+      isDynamicEntry,
+      importedCss: cssMetadata?.importedCss || [],
+      sources: pluginMetas.map(({ id }) => getManifestPath(id)),
+    };
+  });
+
+  Object.values(css).forEach((cssEntry) => cssEntry.chunks.sort());
+
+  return {
+    chunks: sortByKey(chunks),
+    css: sortByKey(css),
+  };
+};
+
+/** Emits the css manifest with the passed file name. */
+export const emitManifest = (
+  fileName: string,
+  bundle: OutputBundle,
+  assetCssFiles: EmittedCssFileMeta[],
+  assetFiles: EmittedAssetFileMeta[],
+  cssOrder: CssOrder,
+  rollupPluginContext: PluginContext
+) => {
+  rollupPluginContext.emitFile({
+    type: 'asset',
+    fileName,
+    source: `${JSON.stringify(
+      getManifest(bundle, assetCssFiles, assetFiles, cssOrder, rollupPluginContext),
+      null,
+      2
+    )}\n`,
+  });
+};
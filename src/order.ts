@@ -0,0 +1,131 @@
+import { pluginName } from './pluginName';
+import type { PluginContext } from 'rollup';
+import type { PluginMeta } from './types';
+
+/** The position of each css file in the final css output, mapped by its id. */
+export type CssOrder = Map<string, number>;
+
+/**
+ * Gets the css files in the order they are imported by the passed entry.
+ * The module graph is walked depth-first, dynamic imports are walked after all static imports, because they are loaded later.
+ */
+const getEntryCssIds = (entryId: string, rollupPluginContext: PluginContext) => {
+  const visited = new Set<string>();
+  const cssIds: string[] = [];
+  const dynamicIds: string[] = [];
+  const walk = (id: string) => {
+    const moduleInfo = rollupPluginContext.getModuleInfo(id);
+
+    if (!moduleInfo || visited.has(id)) {
+      return;
+    }
+
+    visited.add(id);
+
+    const meta = moduleInfo.meta?.[pluginName] as PluginMeta | undefined;
+    if (meta) {
+      cssIds.push(meta.id);
+    }
+
+    moduleInfo.importedIds.forEach(walk);
+    dynamicIds.push(...moduleInfo.dynamicallyImportedIds);
+  };
+
+  walk(entryId);
+  // dynamic imports can have dynamic imports themselves
+  while (dynamicIds.length) {
+    walk(dynamicIds.shift()!);
+  }
+
+  return cssIds;
+};
+
+/** Gets the entries which import the css files along the path from one css file to another, following the passed edges. */
+const getPathEntryIds = (from: string, to: string, edges: Map<string, Map<string, string>>) => {
+  const previous = new Map<string, { id: string; entryId: string }>();
+  const queue = [from];
+
+  while (queue.length && !previous.has(to)) {
+    const id = queue.shift()!;
+    (edges.get(id) || new Map<string, string>()).forEach((entryId, nextId) => {
+      if (nextId !== from && !previous.has(nextId)) {
+        previous.set(nextId, { id, entryId });
+        queue.push(nextId);
+      }
+    });
+  }
+
+  const entryIds = new Set<string>();
+  for (let step = previous.get(to); step; step = previous.get(step.id)) {
+    entryIds.add(step.entryId);
+  }
+
+  return Array.from(entryIds).reverse();
+};
+
+/**
+ * Computes the order of all css files from the module graph.
+ * The css orders of all entries are merged, a css file is placed after all css files which precede it in any entry.
+ * Css files without a required order keep the order in which they are imported first.
+ * A warning is generated if entries import the same css files in a different order, because only one of them can be respected.
+ */
+export const getCssOrder = (rollupPluginContext: PluginContext): CssOrder => {
+  // the css files which directly follow a css file in any entry, mapped to the entry which imports them in this order
+  // the css files themselves are kept in the order in which they are imported first
+  const edges = new Map<string, Map<string, string>>();
+  const entryIds = Array.from(rollupPluginContext.getModuleIds()).filter(
+    (id) => rollupPluginContext.getModuleInfo(id)?.isEntry
+  );
+
+  entryIds.forEach((entryId) => {
+    getEntryCssIds(entryId, rollupPluginContext).forEach((cssId, index, cssIds) => {
+      if (!edges.has(cssId)) {
+        edges.set(cssId, new Map());
+      }
+
+      const preceding = cssIds[index - 1];
+      if (preceding !== undefined && preceding !== cssId && !edges.get(preceding)!.has(cssId)) {
+        edges.get(preceding)!.set(cssId, entryId);
+      }
+    });
+  });
+
+  const order: CssOrder = new Map();
+  const remaining = new Set(edges.keys());
+  const getPrecedingIds = (cssId: string) =>
+    Array.from(remaining).filter((id) => edges.get(id)!.has(cssId));
+
+  while (remaining.size) {
+    const cssIds = Array.from(remaining);
+    // if every css file is preceded by another one, the orders conflict and a css file which is only preceded by css files it precedes itself is placed
+    const next =
+      cssIds.find((cssId) => !getPrecedingIds(cssId).length) ??
+      cssIds.find((cssId) =>
+        getPrecedingIds(cssId).every((preceding) => getPathEntryIds(cssId, preceding, edges).length)
+      )!;
+
+    getPrecedingIds(next).forEach((preceding) => {
+      const entryId = edges.get(preceding)!.get(next);
+      const conflictingEntryIds = getPathEntryIds(next, preceding, edges)
+        .map((id) => `"${id}"`)
+        .join(', ');
+
+      rollupPluginContext.warn(
+        `Conflicting css order: "${preceding}" is imported before "${next}" by "${entryId}", but after it by ${conflictingEntryIds}. The css of "${next}" is placed before the css of "${preceding}".`
+      );
+      edges.get(preceding)!.delete(next);
+    });
+
+    order.set(next, order.size);
+    remaining.delete(next);
+  }
+
+  return order;
+};
+
+/** Sorts the passed plugin metas by the passed css order, css files which aren't part of the order keep their relative order at the end. */
+export const sortByCssOrder = (pluginMetas: PluginMeta[], order: CssOrder) =>
+  pluginMetas
+    .map((meta, index) => ({ meta, position: order.get(meta.id) ?? order.size + index }))
+    .sort((a, b) => a.position - b.position)
+    .map(({ meta }) => meta);
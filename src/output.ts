@@ -1,15 +1,26 @@
 import * as fs from 'fs';
 import * as url from 'url';
 import * as path from 'path';
+import { createHash } from 'crypto';
+import { loadAssetSource } from './assetTransform';
+import { getDataUrl } from './dataUrl';
 import { normalizePathSlashes } from './normalizePathSlashes';
+import { renderCssFile } from './render';
 import { pluginName } from './pluginName';
+import { concatSourcemaps } from './sourcemap';
+import { sortByCssOrder } from './order';
+import { getCssModuleId } from './transform';
+import { getIsInlined } from './resolve';
 import type {
   ExistingRawSourceMap,
+  NormalizedOutputOptions,
   OutputBundle,
   OutputChunk,
   PluginContext,
   RenderedModule,
 } from 'rollup';
+import type { AssetSources } from './assetTransform';
+import type { CssOrder } from './order';
 import type {
   PluginMeta,
   RollupCssAssets,
@@ -24,10 +35,31 @@ export interface EmittedAssetFileMeta {
   emitName: string;
   emitFileName: string;
   emitDefaultName: string;
+  source: string | Uint8Array;
+  /** The input paths of all assets which are emitted as this file, because their content is identical. Only set for assets. */
+  ids?: string[];
 }
 
 export interface EmittedCssFileMeta extends EmittedAssetFileMeta {
   substitutions: [placeholder: string, id: string][];
+  /** Whether the css is injected into a js chunk instead of being a css file. */
+  injected?: boolean;
+  /** The ids of the css files which are part of this shared css file. */
+  sharedIds?: string[];
+}
+
+/** The data urls of the inlined assets, mapped by their input path. */
+export type InlinedAssets = Map<string, string>;
+
+/** Describes a css file which is about to be rendered and emitted. */
+export interface CssFileMeta {
+  id: string;
+  name: { name: string } | { fileName: string };
+  source: string;
+  map: ExistingRawSourceMap | undefined | null;
+  substitutions: [placeholder: string, id: string][];
+  /** The ids of the css files which are part of this shared css file. */
+  sharedIds?: string[];
 }
 
 // ported from https://github.com/substack/node-commondir
@@ -66,22 +98,98 @@ const getPreserveDir = (
   return preserveDir;
 };
 
-const getPluginMetas = (moduleIds: string[], rollupPluginContext: PluginContext) =>
-  moduleIds
+export const cssSeparator = '\r\n';
+
+const hashPlaceholderRegExp = /\[hash\]/g;
+
+const getContentHash = (source: string | Uint8Array) =>
+  createHash('sha256').update(source).digest('hex').slice(0, 8);
+
+const getEmitName = (name: CssFileMeta['name']) =>
+  (name as { name: string }).name || (name as { fileName: string }).fileName;
+
+/**
+ * Gets the output file name rollup will most likely generate for the passed name.
+ * The hash isn't known before the source is rendered, so the "[hash]" placeholder remains in the result.
+ */
+const getFileNamePreview = (
+  name: CssFileMeta['name'],
+  { assetFileNames }: NormalizedOutputOptions
+) => {
+  if ('fileName' in name) {
+    return name.fileName;
+  }
+
+  const { name: emitName } = name;
+  const extname = path.extname(emitName);
+  const pattern =
+    typeof assetFileNames === 'function'
+      ? assetFileNames({ name: emitName, source: '', type: 'asset' })
+      : assetFileNames;
+  const replacements: Record<string, string> = {
+    name: emitName.slice(0, emitName.length - extname.length),
+    ext: extname.slice(1),
+    extname,
+    hash: '[hash]',
+  };
+
+  return pattern.replace(/\[(name|ext|extname|hash)\]/g, (_, key: string) => replacements[key]);
+};
+
+/** Gets the meta information of the css files of the passed modules, marker modules count as their css file. */
+export const getPluginMetas = (moduleIds: string[], rollupPluginContext: PluginContext) =>
+  Array.from(new Set(moduleIds.map(getCssModuleId)))
     .map((id) => rollupPluginContext.getModuleInfo(id)?.meta?.[pluginName])
     .filter(Boolean) as PluginMeta[];
 
+/**
+ * Gets the hash of the css of the passed chunk modules, including the contents of the assets it references.
+ * The css isn't part of the rendered chunk code, so it has to augment the chunk hash. Null if the modules have no css.
+ */
+export const getChunkCssHash = (
+  moduleIds: string[],
+  cssOrder: CssOrder,
+  rollupPluginContext: PluginContext
+): string | null => {
+  const pluginMetas = sortByCssOrder(getPluginMetas(moduleIds, rollupPluginContext), cssOrder);
+
+  if (!pluginMetas.length) {
+    return null;
+  }
+
+  const hash = createHash('sha256');
+  pluginMetas.forEach(({ id, css, inputs }) => {
+    hash.update(id).update(css);
+    // the asset urls are substituted after the chunk is hashed, so the assets are hashed by their contents
+    inputs
+      .filter(({ placeholder }) => placeholder)
+      .forEach(({ path: inputPath }) => {
+        hash.update(fs.existsSync(inputPath) ? fs.readFileSync(inputPath) : '');
+      });
+  });
+
+  return hash.digest('hex');
+};
+
 const getCssDynamicOrigin = (
   modulesMeta: PluginMeta[],
   dynamicModulesMeta: PluginMeta[],
   meta: PluginMeta
 ): boolean => !modulesMeta.includes(meta) && dynamicModulesMeta.includes(meta);
 
-const getChunkModules = (chunks: [string, OutputChunk][], chunk: OutputChunk) => {
+/**
+ * Gets the modules of the passed chunk and the modules of the chunks it imports dynamically.
+ * @param withDynamicImports Whether the modules of dynamic imports are included, they aren't if dynamic imports load their css themselves.
+ */
+const getChunkModules = (
+  chunks: [string, OutputChunk][],
+  chunk: OutputChunk,
+  withDynamicImports: boolean
+) => {
   const { modules, dynamicImports } = chunk;
 
   // gets all deduplicated modules of all dynamic imports
-  const dynamicChunksModules = dynamicImports
+  const dynamicChunksModules = (withDynamicImports ? dynamicImports : [])
     .map((dynamicImport) => {
       const [dynamicChunk] = chunks
         .map(([chunkName, chunkInfo]) => (dynamicImport === chunkName ? chunkInfo : null))
@@ -91,21 +199,22 @@ const getChunkModules = (chunks: [string, OutputChunk][], chunk: OutputChunk) =>
     })
     .filter(Boolean)
     .reduce(
-      (obj, dynamicChunkModules) => ({ ...obj, ...dynamicChunkModules }), // order important!
+      (obj, dynamicChunkModules) => ({ ...obj, ...dynamicChunkModules }),
       {} as {
         [id: string]: RenderedModule;
       }
     );
 
   // all deduplicated modules imported in this chunk
-  return [modules, dynamicChunksModules]; // order important!
+  return [modules, dynamicChunksModules];
 };
 
 const getAssetName = (
   outputBasePath: string,
   id: string,
   isCss: boolean,
-  { preserveDir, file }: RollupCssAssets
+  { preserveDir, file }: RollupCssAssets,
+  inputPaths: string[] = [id]
 ) => {
   const fullName = normalizePathSlashes(path.relative(outputBasePath || '', id));
   const defaultNameOriginalExtension = getPreserveDir(preserveDir, fullName, id, isCss)
@@ -116,10 +225,10 @@ const getAssetName = (
     ? replaceExtension(defaultNameOriginalExtension, '.css')
     : defaultNameOriginalExtension;
 
-  return typeof file === 'function' ? file(id, defaultName, isCss) : defaultName;
+  return typeof file === 'function' ? file(id, defaultName, isCss, inputPaths) : defaultName;
 };
 
-const getSubstitutions = (inputs: CssInputItem[]) =>
+export const getSubstitutions = (inputs: CssInputItem[]) =>
   inputs
     .map(({ placeholder, path: inputFilePath }) => placeholder && [placeholder, inputFilePath])
     .filter(Boolean) as [placeholder: string, id: string][];
@@ -127,7 +236,7 @@ const getSubstitutions = (inputs: CssInputItem[]) =>
 const emitFile = (
   id: string,
   name: { name: string } | { fileName: string },
-  source: string,
+  source: string | Uint8Array,
   sourcemap: ExistingRawSourceMap | undefined | null,
   rollupPluginContext: PluginContext
 ): EmittedAssetFileMeta => {
@@ -137,7 +246,7 @@ const emitFile = (
     ...name,
   });
   const emitFileName = rollupPluginContext.getFileName(emitId);
-  const finalName = (name as { name: string }).name || (name as { fileName: string }).fileName;
+  const finalName = getEmitName(name);
 
   if (sourcemap) {
     rollupPluginContext.emitFile({
@@ -166,37 +275,176 @@ const emitFile = (
     emitName: finalName,
     emitDefaultName: finalName,
     emitFileName,
+    source,
   };
 };
 
 export const getOutputBasePath = (moduleIds: string[]) => commonDir(moduleIds);
 
+/** Gets the sorted ids of the css files which use the asset with the passed id. */
+const getAssetCssIds = (id: string, pluginMetas: PluginMeta[]) =>
+  pluginMetas
+    .filter(({ inputs }) => inputs.some(({ path: inputPath }) => inputPath === id))
+    .map(({ id: cssId }) => cssId)
+    .sort();
+
+/**
+ * Decides which assets are inlined and generates their data urls.
+ * This is done once all css files are known, so the asset transforms get every css file which uses the asset.
+ * The inputs of the css files are updated with the result.
+ */
+export const inlineAssetFiles = async (
+  assetOptions: RollupCssAssets,
+  assetSources: AssetSources,
+  rollupPluginContext: PluginContext
+): Promise<InlinedAssets> => {
+  const pluginMetas = getPluginMetas(
+    Array.from(rollupPluginContext.getModuleIds()),
+    rollupPluginContext
+  );
+  const assetInputs = pluginMetas
+    .map(({ inputs }) => inputs)
+    .flat()
+    .filter(({ placeholder }) => placeholder);
+  const ids = Array.from(new Set(assetInputs.map(({ path: inputPath }) => inputPath)));
+  const dataUrls = await Promise.all(
+    ids.map(async (id) => {
+      const getSource = () =>
+        loadAssetSource(id, getAssetCssIds(id, pluginMetas), assetOptions.transform, assetSources);
+
+      return (await getIsInlined(id, assetOptions.inline, getSource))
+        ? getDataUrl(id, await getSource())
+        : null;
+    })
+  );
+  const dataUrlsById = new Map(ids.map((id, index) => [id, dataUrls[index]]));
+
+  assetInputs.forEach((inputItem) => {
+    const dataUrl = dataUrlsById.get(inputItem.path);
+
+    inputItem.inlined = !!dataUrl;
+    if (dataUrl) {
+      inputItem.encoding = dataUrl.encoding;
+    } else {
+      delete inputItem.encoding;
+    }
+  });
+
+  return new Map(
+    Array.from(dataUrlsById)
+      .filter(([, dataUrl]) => dataUrl)
+      .map(([id, dataUrl]) => [id, dataUrl!.url])
+  );
+};
+
+/**
+ * Transforms and emits the asset files with the passed ids.
+ * Assets with identical content are emitted only once, no matter from which path they were referenced.
+ * Assets which have the same content as an already emitted asset are merged into it, only newly emitted assets are returned.
+ */
 export const emitAssetFiles = async (
   outputBasePath: string,
   ids: string[],
+  emittedAssetsMeta: EmittedAssetFileMeta[],
   assetOptions: RollupCssAssets,
+  assetSources: AssetSources,
   rollupPluginContext: PluginContext
-) =>
+): Promise<EmittedAssetFileMeta[]> => {
+  const getSourceHash = (source: string | Uint8Array) =>
+    createHash('sha256').update(source).digest('hex');
+  const emittedAssetsByHash = new Map(
+    emittedAssetsMeta.map((assetMeta) => [getSourceHash(assetMeta.source), assetMeta])
+  );
+  const assetsByHash = new Map<string, { ids: string[]; source: Buffer }>();
+  const uniqueIds = Array.from(new Set(ids));
+  const pluginMetas = getPluginMetas(
+    Array.from(rollupPluginContext.getModuleIds()),
+    rollupPluginContext
+  );
+  // the assets are transformed before they are compared, so assets which are identical after their transformation are merged as well
+  const sources = await Promise.all(
+    uniqueIds.map((id) =>
+      loadAssetSource(id, getAssetCssIds(id, pluginMetas), assetOptions.transform, assetSources)
+    )
+  );
+
+  uniqueIds.forEach((id, index) => {
+    const source = sources[index];
+    const hash = getSourceHash(source);
+    const emittedAssetMeta = emittedAssetsByHash.get(hash);
+    const asset = assetsByHash.get(hash);
+
+    if (emittedAssetMeta) {
+      emittedAssetMeta.ids = [...(emittedAssetMeta.ids || [emittedAssetMeta.id]), id];
+    } else if (asset) {
+      asset.ids.push(id);
+    } else {
+      assetsByHash.set(hash, { ids: [id], source });
+    }
+  });
+
+  return Array.from(assetsByHash.values())
+    .map(({ ids: assetIds, source }) => {
+      // the first input path determines the name of the emitted asset
+      const [id] = assetIds;
+      const name = getAssetName(outputBasePath, id, false, assetOptions, assetIds);
+
+      return name
+        ? { ...emitFile(id, { name }, source, null, rollupPluginContext), ids: assetIds }
+        : null;
+    })
+    .filter(Boolean) as EmittedAssetFileMeta[];
+};
+
+/**
+ * Renders and emits the passed css files.
+ * The files are rendered before they are emitted, so the hashes rollup generates reflect their final content.
+ */
+export const emitCssFiles = async (
+  cssFilesMeta: CssFileMeta[],
+  emittedAssetsMeta: EmittedAssetFileMeta[],
+  inlinedAssets: InlinedAssets,
+  outputOptions: NormalizedOutputOptions,
+  assetOptions: RollupCssAssets,
+  rollupPluginContext: PluginContext
+): Promise<EmittedCssFileMeta[]> =>
   Promise.all(
-    ids
-      .map((id) => {
-        const name = getAssetName(outputBasePath, id, false, assetOptions);
-        return name
-          ? fs.promises
-              .readFile(id)
-              .then((source) =>
-                emitFile(id, { name }, source.toString(), null, rollupPluginContext)
-              )
-          : null;
-      })
-      .filter(Boolean) as Promise<EmittedAssetFileMeta>[]
+    cssFilesMeta.map(async (cssFileMeta) => {
+      const { id, name, substitutions, sharedIds } = cssFileMeta;
+      const fileNamePreview = getFileNamePreview(name, outputOptions);
+      const { source, map } = await renderCssFile(
+        cssFileMeta,
+        getEmitName(name),
+        fileNamePreview,
+        emittedAssetsMeta,
+        inlinedAssets,
+        assetOptions
+      );
+      const finalName =
+        'fileName' in name
+          ? { fileName: name.fileName.replace(hashPlaceholderRegExp, getContentHash(source)) }
+          : name;
+      const emittedFileMeta = emitFile(id, finalName, source, map, rollupPluginContext);
+
+      if (path.dirname(emittedFileMeta.emitFileName) !== path.dirname(fileNamePreview)) {
+        rollupPluginContext.warn(
+          `The directory of the css file "${emittedFileMeta.emitFileName}" couldn't be determined before it was emitted, relative asset urls in it may be incorrect.`
+        );
+      }
+
+      return {
+        ...emittedFileMeta,
+        substitutions,
+        sharedIds,
+      };
+    })
   );
 
-export const emitAssetCssFiles = (
+export const getAssetCssFiles = (
   outputBasePath: string,
   assetOptions: RollupCssAssets,
   rollupPluginContext: PluginContext
-): EmittedCssFileMeta[] => {
+): CssFileMeta[] => {
   const moduleIds = Array.from(rollupPluginContext.getModuleIds());
   const pluginMetas = getPluginMetas(moduleIds, rollupPluginContext);
 
@@ -205,34 +453,115 @@ export const emitAssetCssFiles = (
       const name = getAssetName(outputBasePath, id, true, assetOptions);
       return name
         ? {
-            ...emitFile(id, { name }, css, map, rollupPluginContext),
+            id,
+            name: { name },
+            source: css,
+            map,
             substitutions: getSubstitutions(inputs),
           }
         : null;
     })
-    .filter(Boolean) as EmittedCssFileMeta[];
+    .filter(Boolean) as CssFileMeta[];
 };
 
-export const emitChunkCssFiles = (
+const getBundleChunks = (bundle: OutputBundle) =>
+  Object.entries(bundle).filter(([_, { type }]) => type === 'chunk') as [string, OutputChunk][];
+
+/** Gets the output file name of the shared css file which contains the css file with the passed id. */
+const getSharedFileName = (sharedCssFiles: EmittedCssFileMeta[] | null, id: string) =>
+  (sharedCssFiles || []).find(({ sharedIds }) => sharedIds?.includes(id))?.emitFileName || null;
+
+/**
+ * Gets the shared css files which contain the css used by multiple chunks.
+ * Css is used by multiple chunks if they dynamically import the same chunk, or if a chunk is also dynamically imported by another one.
+ * The css is grouped by the chunks which use it, so each chunk loads only css it actually needs.
+ */
+export const getSharedCssFiles = async (
+  bundle: OutputBundle,
+  sharedCssFileNames: string,
+  cssOrder: CssOrder,
+  cssForDynamicImports: boolean,
+  rollupPluginContext: PluginContext
+): Promise<CssFileMeta[]> => {
+  const chunks = getBundleChunks(bundle);
+  const importers = new Map<string, string[]>();
+
+  chunks.forEach(([_, chunk]) => {
+    const [modules, dynamicModules] = getChunkModules(chunks, chunk, !cssForDynamicImports);
+    const chunkModules = { ...modules, ...dynamicModules };
+
+    getPluginMetas(Object.keys(chunkModules), rollupPluginContext).forEach(({ id }) => {
+      importers.set(id, [...(importers.get(id) || []), chunk.fileName]);
+    });
+  });
+
+  const groups = new Map<string, PluginMeta[]>();
+  sortByCssOrder(
+    getPluginMetas(Array.from(importers.keys()), rollupPluginContext),
+    cssOrder
+  ).forEach((meta) => {
+    const chunkFileNames = importers.get(meta.id)!;
+
+    if (chunkFileNames.length > 1) {
+      const groupKey = [...chunkFileNames].sort().join('\0');
+      groups.set(groupKey, [...(groups.get(groupKey) || []), meta]);
+    }
+  });
+
+  return Promise.all(
+    Array.from(groups.values()).map(async (groupMetas) => {
+      const [{ id: firstId }] = groupMetas;
+      const fileName = sharedCssFileNames.replace(
+        /\[name\]/g,
+        replaceExtension(path.basename(firstId))
+      );
+
+      return {
+        id: fileName,
+        name: { fileName },
+        source: groupMetas.map(({ css }) => css).join(cssSeparator),
+        map: await concatSourcemaps(
+          groupMetas.map(({ css, map }) => ({ code: css, map })),
+          cssSeparator
+        ),
+        substitutions: getSubstitutions(groupMetas.map(({ inputs }) => inputs).flat()),
+        sharedIds: groupMetas.map(({ id }) => id),
+      };
+    })
+  );
+};
+
+export const getChunkCssFiles = async (
   bundle: OutputBundle,
   assetCssFiles: EmittedCssFileMeta[],
+  sharedCssFiles: EmittedCssFileMeta[] | null,
   extract: CssForChunksExtract,
+  chunkCssFileNames: string,
+  cssOrder: CssOrder,
+  cssForDynamicImports: boolean,
   rollupPluginContext: PluginContext
-): EmittedCssFileMeta[] => {
-  const chunks = Object.entries(bundle).filter(([_, { type }]) => type === 'chunk') as [
-    string,
-    OutputChunk
-  ][];
-  return chunks
-    .map(([_, chunk]) => {
+): Promise<CssFileMeta[]> => {
+  const chunks = getBundleChunks(bundle);
+  const chunkCssFiles = await Promise.all(
+    chunks.map(async ([_, chunk]) => {
       const { name: chunkName, fileName: chunkFileName } = chunk;
-      const [modules, dynamicModules] = getChunkModules(chunks, chunk);
-      const chunkModules = { ...modules, ...dynamicModules }; // order important!
-      const chunkPluginMetas = getPluginMetas(Object.keys(chunkModules), rollupPluginContext);
+      const [modules, dynamicModules] = getChunkModules(chunks, chunk, !cssForDynamicImports);
+      const chunkModules = { ...modules, ...dynamicModules };
+      const chunkPluginMetas = sortByCssOrder(
+        getPluginMetas(Object.keys(chunkModules), rollupPluginContext),
+        cssOrder
+      );
+      const getSharedFile = ({ id }: PluginMeta) => getSharedFileName(sharedCssFiles, id);
+      // css which is part of a shared css file isn't part of the css file of the chunk
+      const ownPluginMetas = chunkPluginMetas.filter((meta) => !getSharedFile(meta));
       const suggestedResult: Required<CssForChunksExtractResult> = {
-        name: `${chunkName}.css`,
-        source: chunkPluginMetas.map(({ css }) => css).join('\r\n'),
-        inputs: chunkPluginMetas.map(({ inputs }) => inputs).flat(),
+        name: chunkCssFileNames.replace(/\[name\]/g, chunkName),
+        source: ownPluginMetas.map(({ css }) => css).join(cssSeparator),
+        inputs: ownPluginMetas.map(({ inputs }) => inputs).flat(),
+        map: await concatSourcemaps(
+          ownPluginMetas.map(({ css, map }) => ({ code: css, map })),
+          cssSeparator
+        ),
       };
       const getCssDependencies = (): CssForChunksExtractDependency[] => {
         const moduleMetas = getPluginMetas(Object.keys(modules), rollupPluginContext);
@@ -240,6 +569,7 @@ export const emitChunkCssFiles = (
         return chunkPluginMetas.map((meta) => ({
           inputFile: meta.id,
           assetFile: assetCssFiles.find(({ id }) => id === meta.id)?.emitFileName || null,
+          sharedFile: getSharedFile(meta),
           inputs: meta.inputs,
           css: meta.css,
           map: meta.map,
@@ -253,6 +583,7 @@ export const emitChunkCssFiles = (
                 name: '',
                 source: '',
                 inputs: [],
+                map: null,
               }
             : suggestedResult;
         if (result === true) {
@@ -262,22 +593,84 @@ export const emitChunkCssFiles = (
           name,
           source = suggestedResult.source,
           inputs: usedInputs = suggestedResult.inputs,
+          // the default sourcemap only matches the default source
+          map = result.source === undefined ? suggestedResult.map : null,
         } = result;
         return {
           name,
           source,
           inputs: usedInputs,
+          map,
         };
       };
 
-      const { name: fileName, source, inputs: usedInputs } = getExtractInfo();
+      const { name: fileName, source, inputs: usedInputs, map } = getExtractInfo();
 
       return source.length
         ? {
-            ...emitFile(chunkFileName, { fileName }, source, null, rollupPluginContext),
+            id: chunkFileName,
+            name: { fileName },
+            source,
+            map,
             substitutions: getSubstitutions(usedInputs),
           }
         : null;
     })
-    .filter(Boolean) as EmittedCssFileMeta[];
+  );
+
+  return chunkCssFiles.filter(Boolean) as CssFileMeta[];
+};
+
+/**
+ * Adds the "cssMetadata" to each chunk of the bundle.
+ * The imported css of a chunk are the shared css files which contain its css followed by its own css file.
+ */
+export const setChunksCssMetadata = (
+  bundle: OutputBundle,
+  chunkCssFiles: EmittedCssFileMeta[],
+  sharedCssFiles: EmittedCssFileMeta[] | null,
+  cssOrder: CssOrder,
+  cssForDynamicImports: boolean,
+  rollupPluginContext: PluginContext
+) => {
+  const chunks = getBundleChunks(bundle);
+
+  chunks.forEach(([_, chunk]) => {
+    const [modules, dynamicModules] = getChunkModules(chunks, chunk, !cssForDynamicImports);
+    const sharedFiles = sortByCssOrder(
+      getPluginMetas(Object.keys({ ...modules, ...dynamicModules }), rollupPluginContext),
+      cssOrder
+    )
+      .map(({ id }) => getSharedFileName(sharedCssFiles, id))
+      .filter(Boolean) as string[];
+    const ownFile = chunkCssFiles.find(({ id }) => id === chunk.fileName)?.emitFileName;
+
+    chunk.cssMetadata = {
+      importedCss: Array.from(new Set(ownFile ? [...sharedFiles, ownFile] : sharedFiles)),
+    };
+  });
+};
+
+/** Gets the imported css of the passed chunk and all chunks it imports statically. */
+export const getAllImportedCss = (
+  bundle: OutputBundle,
+  chunk: OutputChunk,
+  visited = new Set<string>()
+): string[] => {
+  if (visited.has(chunk.fileName)) {
+    return [];
+  }
+  visited.add(chunk.fileName);
+
+  // the css of imported chunks comes first, because their code is executed first
+  return Array.from(
+    new Set([
+      ...chunk.imports
+        .map((fileName) => bundle[fileName])
+        .filter((importedChunk) => importedChunk?.type === 'chunk')
+        .map((importedChunk) => getAllImportedCss(bundle, importedChunk as OutputChunk, visited))
+        .flat(),
+      ...(chunk.cssMetadata?.importedCss || []),
+    ])
+  );
 };
@@ -1,15 +1,107 @@
 import * as path from 'path';
 import { template } from 'dot';
 import { normalizePathSlashes } from './normalizePathSlashes';
-import type { OutputAsset, OutputBundle } from 'rollup';
-import type { EmittedCssFileMeta, EmittedAssetFileMeta } from './output';
+import { shiftSourcemapColumns } from './sourcemap';
+import type { OutputBundle } from 'rollup';
+import type { SourceReplacement } from './sourcemap';
+import type {
+  CssFileMeta,
+  EmittedCssFileMeta,
+  EmittedAssetFileMeta,
+  InlinedAssets,
+} from './output';
 import type { RollupCssAssets } from './types';
 
 export const templateInterpolatePrefix = '^<<^';
 export const templateInterpolateSuffix = '^>>^';
 export const templateInterpolateSymbol = '=';
 
-const renderCssFile = async (source: string, substitutions: Record<string, string>) =>
+/** Generates the placeholder of an asset from its input path. */
+export const getAssetPlaceholder = (assetPath: string) =>
+  `_${Buffer.from(assetPath).toString('base64url')}`;
+
+/** Generates the token which is placed in the css code and substituted with the passed placeholders value when the css is rendered. */
+export const getPlaceholderToken = (placeholder: string) =>
+  `${templateInterpolatePrefix}${templateInterpolateSymbol}${placeholder}${templateInterpolateSuffix}`;
+
+// quotes are only added if needed, which is the same way esbuild prints urls
+export const printUrl = (urlToPrint: string) =>
+  /^[^\s"'()\\]*$/.test(urlToPrint) ? urlToPrint : JSON.stringify(urlToPrint);
+
+/** Whether the passed emitted asset is the output of the input file with the passed id. */
+export const isEmittedAssetOf = ({ id, ids }: EmittedAssetFileMeta, inputId: string) =>
+  id === inputId || !!ids?.includes(inputId);
+
+const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const placeholderRegExp = new RegExp(
+  `${escapeRegExp(templateInterpolatePrefix)}${escapeRegExp(
+    templateInterpolateSymbol
+  )}([\\w-]+)${escapeRegExp(templateInterpolateSuffix)}`,
+  'g'
+);
+
+const placeholderTokenRegExp = new RegExp(
+  `(${escapeRegExp(templateInterpolatePrefix)}${escapeRegExp(
+    templateInterpolateSymbol
+  )}[\\w-]+${escapeRegExp(templateInterpolateSuffix)})`
+);
+
+/** Splits the passed source at its placeholder tokens, the tokens are placed at the odd indices of the result. */
+export const splitAtPlaceholderTokens = (source: string) => source.split(placeholderTokenRegExp);
+
+/** Gets the replacements of the placeholder tokens in the passed source, tokens without a substitution aren't replaced. */
+const getSourceReplacements = (
+  source: string,
+  getSubstitution: (placeholder: string) => string | undefined
+) => {
+  const replacements: SourceReplacement[] = [];
+  const regExp = new RegExp(placeholderRegExp);
+  let line = 0;
+  let lineStart = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = regExp.exec(source))) {
+    const { index } = match;
+    const [token, placeholder] = match;
+
+    for (let i = lineStart; i < index; i++) {
+      if (source[i] === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+    }
+
+    const substitution = getSubstitution(placeholder);
+    if (substitution !== undefined) {
+      replacements.push({
+        line,
+        column: index - lineStart,
+        length: token.length,
+        replacementLength: substitution.length,
+      });
+    }
+  }
+
+  return replacements;
+};
+
+/**
+ * Substitutes the placeholder tokens of the passed code, tokens without a substitution are kept.
+ * @returns The substituted code and the replacements which took place, so a sourcemap of the code can be shifted.
+ */
+export const substitutePlaceholderTokens = (
+  code: string,
+  getSubstitution: (placeholder: string) => string | undefined
+) => ({
+  code: code.replace(
+    new RegExp(placeholderRegExp),
+    (token, placeholder: string) => getSubstitution(placeholder) ?? token
+  ),
+  replacements: getSourceReplacements(code, getSubstitution),
+});
+
+const renderTemplate = async (source: string, substitutions: Record<string, string>) =>
   new Promise<string>((resolve, reject) => {
     try {
       const result = template(source, {
@@ -23,99 +115,158 @@ const renderCssFile = async (source: string, substitutions: Record<string, strin
     }
   });
 
-export const renderCssFiles = (
-  emittedCssFilesMeta: EmittedCssFileMeta[],
+const getComputedSubstitutions = (
+  cssMeta: Omit<EmittedCssFileMeta, 'source'>,
   emittedAssetsMeta: EmittedAssetFileMeta[],
-  bundle: OutputBundle,
+  inlinedAssets: InlinedAssets,
   options: RollupCssAssets
 ) => {
-  const bundleEntries = Object.entries(bundle);
-  const bundleAssets = bundleEntries
-    .filter(([_, { type }]) => type === 'asset')
-    .map(([, asset]) => asset) as OutputAsset[];
-
-  return Promise.all(
-    emittedCssFilesMeta
-      .map((cssMeta) => {
-        const {
-          id: cssFileId,
-          emitName: cssName,
-          emitFileName: cssFileName,
-          emitDefaultName: cssDefaultName,
-          substitutions,
-        } = cssMeta;
-        const bundleAsset = bundleAssets.find(
-          (bundleAsset) => bundleAsset.fileName === cssFileName
+  const {
+    id: cssFileId,
+    emitName: cssName,
+    emitFileName: cssFileName,
+    emitDefaultName: cssDefaultName,
+    substitutions,
+    injected,
+  } = cssMeta;
+  const { publicPath, url } = options;
+
+  return (
+    substitutions
+      .map(([placeholder, substitute]) => {
+        const dataUrl = inlinedAssets.get(substitute);
+
+        // the placeholders are unquoted inside of "url()", so the data url is quoted if needed
+        if (dataUrl) {
+          const printedUrl = printUrl(dataUrl);
+          return [placeholder, injected ? JSON.stringify(printedUrl).slice(1, -1) : printedUrl];
+        }
+
+        const assetMeta = emittedAssetsMeta.find((emittedAssetMeta) =>
+          isEmittedAssetOf(emittedAssetMeta, substitute)
         );
 
-        if (bundleAsset) {
-          const { publicPath, url } = options;
-          const { source } = bundleAsset;
-          const computedSubstitutions = (
-            substitutions
-              .map(([placeholder, substitute]) => {
-                const assetMeta = emittedAssetsMeta.find(({ id }) => id === substitute);
-
-                if (assetMeta) {
-                  const {
-                    id: assetFileId,
-                    emitName: assetName,
-                    emitFileName: assetFileName,
-                    emitDefaultName: assetDefaultName,
-                  } = assetMeta;
-                  const resolvedUrl = normalizePathSlashes(
-                    path.relative(path.dirname(cssFileName), assetFileName)
-                  );
-                  const publicPathUrl = `${publicPath || ''}${resolvedUrl}`;
-                  const finalUrl =
-                    typeof url === 'function'
-                      ? url(
-                          {
-                            assetFileMeta: {
-                              inputPath: normalizePathSlashes(assetFileId),
-                              output: {
-                                name: assetName,
-                                fileName: assetFileName,
-                                defaultName: assetDefaultName,
-                              },
-                            },
-                            cssFileMeta: {
-                              inputPath: normalizePathSlashes(cssFileId),
-                              output: {
-                                name: cssName,
-                                fileName: cssFileName,
-                                defaultName: cssDefaultName,
-                              },
-                            },
-                            publicPath,
-                          },
-                          resolvedUrl
-                        )
-                      : publicPathUrl;
-
-                  return [placeholder, finalUrl];
-                }
-              })
-              .filter(Boolean) as [placeholder: string, substitute: string][]
-          ).reduce((obj, [placeholder, substitute]) => {
-            obj[placeholder] = substitute;
-            return obj;
-          }, {} as Record<string, string>);
-
-          return renderCssFile(
-            typeof source === 'string' ? source : source.toString(),
-            computedSubstitutions
-          )
-            .catch((error: Error) => {
-              throw new Error(
-                `Couldn't find all asset files used by the file "${cssFileName}". (${error})`
-              );
-            })
-            .then((substitutedSource) => {
-              bundleAsset.source = substitutedSource;
-            });
+        if (assetMeta) {
+          const {
+            id: assetFileId,
+            emitName: assetName,
+            emitFileName: assetFileName,
+            emitDefaultName: assetDefaultName,
+            ids: assetFileIds,
+          } = assetMeta;
+          // urls in injected css are relative to the chunk, the injection code resolves them against the chunk url at runtime
+          const resolvedUrl = normalizePathSlashes(
+            path.relative(path.dirname(cssFileName), assetFileName)
+          );
+          const publicPathUrl = `${publicPath || ''}${resolvedUrl}`;
+          const finalUrl =
+            typeof url === 'function'
+              ? url(
+                  {
+                    assetFileMeta: {
+                      inputPath: normalizePathSlashes(assetFileId),
+                      inputPaths: (assetFileIds || [assetFileId]).map(normalizePathSlashes),
+                      output: {
+                        name: assetName,
+                        fileName: assetFileName,
+                        defaultName: assetDefaultName,
+                      },
+                    },
+                    cssFileMeta: {
+                      inputPath: normalizePathSlashes(cssFileId),
+                      inputPaths: [normalizePathSlashes(cssFileId)],
+                      output: {
+                        name: cssName,
+                        fileName: cssFileName,
+                        defaultName: cssDefaultName,
+                      },
+                    },
+                    publicPath,
+                  },
+                  resolvedUrl
+                )
+              : publicPathUrl;
+
+          // injected css is placed inside a js string
+          return [placeholder, injected ? JSON.stringify(finalUrl).slice(1, -1) : finalUrl];
         }
       })
-      .filter(Boolean) as Promise<void>[]
+      .filter(Boolean) as [placeholder: string, substitute: string][]
+  ).reduce((obj, [placeholder, substitute]) => {
+    obj[placeholder] = substitute;
+    return obj;
+  }, {} as Record<string, string>);
+};
+
+/**
+ * Renders the passed css file before it is emitted, so its final content is known when rollup generates its hash.
+ * @param cssName The name of the css file.
+ * @param cssFileName The (expected) output file name of the css file which is used to resolve relative asset urls.
+ * @returns The rendered source and its sourcemap.
+ */
+export const renderCssFile = async (
+  cssFileMeta: CssFileMeta,
+  cssName: string,
+  cssFileName: string,
+  emittedAssetsMeta: EmittedAssetFileMeta[],
+  inlinedAssets: InlinedAssets,
+  options: RollupCssAssets
+) => {
+  const { id, source, map, substitutions } = cssFileMeta;
+  const computedSubstitutions = getComputedSubstitutions(
+    {
+      id,
+      emitName: cssName,
+      emitDefaultName: cssName,
+      emitFileName: cssFileName,
+      substitutions,
+    },
+    emittedAssetsMeta,
+    inlinedAssets,
+    options
   );
+  const renderedSource = await renderTemplate(source, computedSubstitutions).catch(
+    (error: Error) => {
+      throw new Error(`Couldn't find all asset files used by the file "${cssName}". (${error})`);
+    }
+  );
+
+  return {
+    source: renderedSource,
+    // the substitutions differ in length from the placeholders, so the columns of the sourcemap have to be shifted
+    map:
+      map &&
+      (await shiftSourcemapColumns(
+        map,
+        getSourceReplacements(source, (placeholder) => computedSubstitutions[placeholder] || '')
+      )),
+  };
 };
+
+/**
+ * Renders the passed chunks which contain css (e.g. because it was injected) in place.
+ */
+export const renderChunkFiles = (
+  injectedChunksMeta: EmittedCssFileMeta[],
+  emittedAssetsMeta: EmittedAssetFileMeta[],
+  inlinedAssets: InlinedAssets,
+  bundle: OutputBundle,
+  options: RollupCssAssets
+) =>
+  Promise.all(
+    injectedChunksMeta.map(async (chunkMeta) => {
+      const { emitFileName: chunkFileName } = chunkMeta;
+      const bundleChunk = bundle[chunkFileName];
+
+      if (bundleChunk && bundleChunk.type === 'chunk') {
+        bundleChunk.code = await renderTemplate(
+          bundleChunk.code,
+          getComputedSubstitutions(chunkMeta, emittedAssetsMeta, inlinedAssets, options)
+        ).catch((error: Error) => {
+          throw new Error(
+            `Couldn't find all asset files used by the file "${chunkFileName}". (${error})`
+          );
+        });
+      }
+    })
+  );
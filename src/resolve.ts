@@ -0,0 +1,116 @@
+import { normalizePathSlashes } from './normalizePathSlashes';
+import type { ResolvedId, TransformPluginContext } from 'rollup';
+import type {
+  AssetsInline,
+  AssetsInlineCustom,
+  RollupCssResolve,
+  ResolveContext,
+  ResolveResult,
+} from './types';
+
+/**
+ * Whether the asset with the passed path is inlined as a dataurl.
+ * @param getSource Gets the (transformed) content of the asset, its only called if the inline option needs the size of the asset.
+ */
+export const getIsInlined = async (
+  path: string,
+  inlineOption: AssetsInline,
+  getSource: () => Promise<Buffer>
+): Promise<boolean> => {
+  const getSize = async () => (await getSource()).length;
+  const testCustom = async (custom: AssetsInlineCustom) => {
+    if (typeof custom === 'number') {
+      return (await getSize()) <= custom;
+    }
+    if (typeof custom === 'function') {
+      return custom(path, await getSize());
+    }
+    return custom.test(path);
+  };
+
+  if (Array.isArray(inlineOption)) {
+    for (const custom of inlineOption) {
+      if (await testCustom(custom)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  if (typeof inlineOption === 'boolean') {
+    return inlineOption;
+  }
+
+  return testCustom(inlineOption);
+};
+
+export const isExternalUrl = (path: string) => {
+  try {
+    const { protocol } = new URL(path);
+    return protocol === 'http:' || protocol === 'https:' || protocol === 'data:';
+  } catch {
+    return false;
+  }
+};
+
+export const normalizeRollupResolveId = (
+  resolvedId: ResolvedId | null,
+  pathToResolve: string,
+  resolveContext: ResolveContext
+): ResolveResult => {
+  if (resolvedId) {
+    const { id, external } = resolvedId;
+    return {
+      path: normalizePathSlashes(id),
+      external: !!external,
+    };
+  }
+  if (resolveContext === 'url') {
+    // absolute paths are considered external
+    if (pathToResolve.startsWith('/')) {
+      return {
+        path: normalizePathSlashes(pathToResolve),
+        external: true,
+      };
+    }
+    // ids are considered external
+    if (pathToResolve.startsWith('#')) {
+      return {
+        path: pathToResolve,
+        external: true,
+      };
+    }
+    // http: || https: || data: urls are considered external
+    if (isExternalUrl(pathToResolve)) {
+      return {
+        path: pathToResolve,
+        external: true,
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Resolves the passed path with rollup and the "resolve" option.
+ * @returns The resolved result or null if the path couldn't be resolved.
+ */
+export const resolveCssPath = async (
+  pathToResolve: string,
+  importer: string | undefined,
+  resolveContext: ResolveContext,
+  resolve: RollupCssResolve,
+  rollupPluginContext: TransformPluginContext
+): Promise<ResolveResult> => {
+  const rollupResult = await rollupPluginContext.resolve(pathToResolve, importer);
+  const normalizedRollupResult = normalizeRollupResolveId(
+    rollupResult,
+    pathToResolve,
+    resolveContext
+  );
+
+  return typeof resolve === 'function'
+    ? await resolve(pathToResolve, importer, resolveContext, normalizedRollupResult)
+    : normalizedRollupResult;
+};
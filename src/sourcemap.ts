@@ -0,0 +1,149 @@
+import * as url from 'url';
+import * as path from 'path';
+import { SourceMapConsumer, SourceMapGenerator } from 'source-map';
+import { normalizePathSlashes } from './normalizePathSlashes';
+import type { RawSourceMap } from 'source-map';
+import type { ExistingRawSourceMap } from 'rollup';
+
+export interface SourcemapItem {
+  code: string;
+  map?: ExistingRawSourceMap;
+}
+
+/** Describes a replacement of a part of a single line of code. */
+export interface SourceReplacement {
+  /** The zero based line of the replaced code. */
+  line: number;
+  /** The zero based column of the replaced code. */
+  column: number;
+  /** The length of the replaced code. */
+  length: number;
+  /** The length of the code which replaced the original code. */
+  replacementLength: number;
+}
+
+const countLineBreaks = (code: string) => (code.match(/\n/g) || []).length;
+
+const toRawSourcemap = (generator: SourceMapGenerator) =>
+  generator.toJSON() as unknown as ExistingRawSourceMap;
+
+/**
+ * Adds all mappings and source contents of the passed sourcemap to the passed generator.
+ * @param getGeneratedColumn Computes the new generated column of a mapping. The line is one based, the column zero based.
+ * @param lineOffset The offset which is added to the generated line of each mapping.
+ */
+const addSourcemap = (
+  generator: SourceMapGenerator,
+  map: ExistingRawSourceMap,
+  getGeneratedColumn: (line: number, column: number) => number,
+  lineOffset = 0
+) =>
+  SourceMapConsumer.with(map as RawSourceMap, null, (consumer) => {
+    consumer.eachMapping(
+      ({ generatedLine, generatedColumn, originalLine, originalColumn, source, name }) => {
+        if (source) {
+          generator.addMapping({
+            generated: {
+              line: generatedLine + lineOffset,
+              column: getGeneratedColumn(generatedLine, generatedColumn),
+            },
+            original: { line: originalLine, column: originalColumn },
+            source,
+            name: name || undefined,
+          });
+        }
+      }
+    );
+    consumer.sources.forEach((source) => {
+      const sourceContent = consumer.sourceContentFor(source, true);
+      if (sourceContent !== null) {
+        generator.setSourceContent(source, sourceContent);
+      }
+    });
+  });
+
+const shiftColumn = (lineReplacements: SourceReplacement[], column: number) =>
+  lineReplacements.reduce(
+    (shiftedColumn, { column: start, length, replacementLength }) =>
+      start < column
+        ? // columns inside of a replaced code are moved to its start
+          shiftedColumn + (column >= start + length ? replacementLength - length : start - column)
+        : shiftedColumn,
+    column
+  );
+
+/**
+ * Concatenates the sourcemaps of the passed items as if their code would be joined with the passed separator.
+ * The separator must end with a line break, so each item starts at the first column of a line.
+ * @returns The concatenated sourcemap or null if none of the items has a sourcemap.
+ */
+export const concatSourcemaps = async (
+  items: SourcemapItem[],
+  separator: string
+): Promise<ExistingRawSourceMap | null> => {
+  if (!items.some(({ map }) => map)) {
+    return null;
+  }
+
+  const generator = new SourceMapGenerator();
+  let lineOffset = 0;
+
+  for (const { code, map } of items) {
+    if (map) {
+      await addSourcemap(generator, map, (_, column) => column, lineOffset);
+    }
+
+    lineOffset += countLineBreaks(`${code}${separator}`);
+  }
+
+  return toRawSourcemap(generator);
+};
+
+/**
+ * Shifts the generated columns of the passed sourcemap so it matches the code after the passed replacements took place.
+ * @returns The shifted sourcemap.
+ */
+export const shiftSourcemapColumns = async (
+  map: ExistingRawSourceMap,
+  replacements: SourceReplacement[]
+): Promise<ExistingRawSourceMap> => {
+  if (!replacements.some(({ length, replacementLength }) => length !== replacementLength)) {
+    return map;
+  }
+
+  const generator = new SourceMapGenerator({ file: map.file });
+  const lineReplacements = replacements.reduce((lines, replacement) => {
+    const { line } = replacement;
+    lines.set(line, [...(lines.get(line) || []), replacement]);
+    return lines;
+  }, new Map<number, SourceReplacement[]>());
+
+  await addSourcemap(generator, map, (line, column) =>
+    shiftColumn(lineReplacements.get(line - 1) || [], column)
+  );
+
+  return toRawSourcemap(generator);
+};
+
+/**
+ * Normalizes the sources of the passed sourcemap to absolute paths with forward slashes.
+ * @param baseDir The directory which relative sources are relative to.
+ */
+export const normalizeSourcemapSources = (
+  map: ExistingRawSourceMap,
+  baseDir: string
+): ExistingRawSourceMap => ({
+  ...map,
+  sources: map.sources.map((sourcePath) => {
+    let diskPath = sourcePath;
+    try {
+      diskPath = url.fileURLToPath(sourcePath);
+    } catch {}
+
+    if (!path.isAbsolute(diskPath)) {
+      diskPath = path.resolve(baseDir, diskPath);
+    }
+
+    return normalizePathSlashes(diskPath);
+  }),
+});
@@ -0,0 +1,10 @@
+declare module 'sugarss' {
+  import type { Parser, Stringifier } from 'postcss';
+
+  const sugarss: {
+    parse: Parser;
+    stringify: Stringifier;
+  };
+
+  export default sugarss;
+}
@@ -0,0 +1,105 @@
+import type { Targets } from 'lightningcss';
+import type { RollupCssTargets } from './types';
+
+/** The browserslist browsers which are also known to esbuild, mapped to the name of their esbuild engine. */
+const esbuildEngines: Record<string, string> = {
+  chrome: 'chrome',
+  and_chr: 'chrome',
+  edge: 'edge',
+  firefox: 'firefox',
+  and_ff: 'firefox',
+  ie: 'ie',
+  ios_saf: 'ios',
+  opera: 'opera',
+  safari: 'safari',
+};
+
+/** The esbuild engines which are also known to lightningcss, mapped to the name of their lightningcss browser. */
+const lightningcssBrowsers: Record<string, keyof Targets> = {
+  chrome: 'chrome',
+  edge: 'edge',
+  firefox: 'firefox',
+  ie: 'ie',
+  ios: 'ios_saf',
+  opera: 'opera',
+  safari: 'safari',
+};
+
+const esbuildTargetRegExp =
+  /^(chrome|edge|firefox|ie|ios|opera|safari|node|es)(\d+(?:\.\d+){0,2})?$/;
+
+const parseVersion = (version: string) => version.split('.').map((part) => parseInt(part, 10) || 0);
+
+const compareVersions = (a: string, b: string) => {
+  const partsA = parseVersion(a);
+  const partsB = parseVersion(b);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff) {
+      return diff;
+    }
+  }
+
+  return 0;
+};
+
+/**
+ * Converts the passed browserslist browsers to esbuild targets.
+ * Only the lowest version of each engine is kept, browsers which esbuild doesn't know are ignored.
+ */
+const getEsbuildTargets = (browsers: string[]) => {
+  const engineVersions = new Map<string, string>();
+
+  browsers.forEach((browser) => {
+    const [name, versionRange] = browser.split(' ');
+    const engine = esbuildEngines[name];
+    // ranges like "15.2-15.3" are reduced to their lowest version
+    const version = (versionRange || '').split('-')[0];
+
+    if (engine && /^\d+(\.\d+)*$/.test(version)) {
+      const currentVersion = engineVersions.get(engine);
+
+      if (!currentVersion || compareVersions(version, currentVersion) < 0) {
+        engineVersions.set(engine, version);
+      }
+    }
+  });
+
+  return Array.from(engineVersions.entries()).map(([engine, version]) => `${engine}${version}`);
+};
+
+/**
+ * Resolves the passed targets option to a list of esbuild targets.
+ * A list which only consists of esbuild targets is used as is, everything else is treated as a browserslist query.
+ */
+export const resolveTargets = async (targets: NonNullable<RollupCssTargets>) => {
+  if (Array.isArray(targets) && targets.every((target) => esbuildTargetRegExp.test(target))) {
+    return targets;
+  }
+
+  const { default: browserslist } = (await import('browserslist').catch(() => null)) || {};
+
+  if (!browserslist) {
+    throw new Error(
+      'Please install the "browserslist" package to use browserslist queries as targets.'
+    );
+  }
+
+  return getEsbuildTargets(browserslist(targets));
+};
+
+/** Converts the passed esbuild targets to lightningcss targets, engines which lightningcss doesn't know are ignored. */
+export const getLightningcssTargets = (esbuildTargets: string[]) =>
+  esbuildTargets.reduce((lightningcssTargets, target) => {
+    const [, engine, version] = target.match(esbuildTargetRegExp) || [];
+    const browser = lightningcssBrowsers[engine];
+
+    if (browser && version) {
+      const [major, minor = 0, patch = 0] = parseVersion(version);
+      // lightningcss encodes versions as a single number: major << 16 | minor << 8 | patch
+      lightningcssTargets[browser] = (major << 16) | (minor << 8) | patch;
+    }
+
+    return lightningcssTargets;
+  }, {} as Targets);
@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import { pluginName } from './pluginName';
+import type {
+  CssModulesNamedExports,
+  TransformCssModules,
+  TransformInfo,
+  TransformResult,
+} from './types';
+
+type CssModulesExports = [exportName: string, className: string][];
+
+const reservedWords = new Set(
+  [
+    'arguments await break case catch class const continue debugger default delete do else enum eval export extends',
+    'false finally for function if implements import in instanceof interface let new null package private protected',
+    'public return static super switch this throw true try typeof undefined var void while with yield',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+const isValidExportName = (name: string) =>
+  /^[a-zA-Z_$][\w$]*$/.test(name) && !reservedWords.has(name);
+
+const camelCase = (className: string) =>
+  className.replace(/-+([a-zA-Z0-9])/g, (_, char: string) => char.toUpperCase());
+
+const getCssModulesExports = (
+  cssModules: Record<string, string>,
+  namedExports: CssModulesNamedExports
+): CssModulesExports => {
+  if (!namedExports) {
+    return [];
+  }
+
+  const exportNames = new Set<string>();
+
+  return Object.entries(cssModules)
+    .map(([className, scopedClassName]) => {
+      const camelCaseName = camelCase(className);
+      const defaultName = isValidExportName(camelCaseName) ? camelCaseName : null;
+      const exportName =
+        typeof namedExports === 'function' ? namedExports(className, defaultName) : defaultName;
+
+      // the first class name wins if multiple class names are converted to the same export name
+      if (exportName && !exportNames.has(exportName)) {
+        exportNames.add(exportName);
+        return [exportName, scopedClassName];
+      }
+
+      return null;
+    })
+    .filter(Boolean) as CssModulesExports;
+};
+
+const getCssModulesDts = (cssModules: Record<string, string>, exports: CssModulesExports) =>
+  [
+    'declare const styles: {',
+    ...Object.keys(cssModules).map(
+      (className) => `  readonly ${JSON.stringify(className)}: string;`
+    ),
+    '};',
+    'export default styles;',
+    ...exports.map(([exportName]) => `export declare const ${exportName}: string;`),
+    '',
+  ].join('\n');
+
+const cssMarkerPrefix = `\0${pluginName}-marker:`;
+
+/**
+ * Gets the id of the empty marker module imported by the js module of the passed css file.
+ * The marker isn't tree-shaken, so the css is kept in its chunk even if the js module itself is removed.
+ */
+export const getCssMarkerId = (id: string) => `${cssMarkerPrefix}${id}`;
+
+export const isCssMarkerId = (id: string) => id.startsWith(cssMarkerPrefix);
+
+/** Gets the id of the css module of the passed marker id, other ids are returned unchanged. */
+export const getCssModuleId = (id: string) =>
+  isCssMarkerId(id) ? id.slice(cssMarkerPrefix.length) : id;
+
+export const getDefaultTransformResult = (
+  { data }: TransformInfo,
+  { namedExports }: TransformCssModules
+): TransformResult => {
+  const { cssModules } = data;
+
+  if (cssModules) {
+    const exports = getCssModulesExports(cssModules, namedExports);
+
+    return {
+      code: [
+        ...exports.map(
+          ([exportName, className]) => `export const ${exportName} = ${JSON.stringify(className)};`
+        ),
+        `export default ${JSON.stringify(cssModules)};`,
+      ].join('\n'),
+      map: { mappings: '' },
+    };
+  }
+
+  // the default export is removed by tree-shaking if it isn't used
+  return {
+    code: 'export default undefined;',
+    map: { mappings: '' },
+  };
+};
+
+/**
+ * Writes a typescript declaration file next to the passed css modules file.
+ * The file is only written if its content changed, so watchers aren't triggered needlessly.
+ */
+export const writeCssModulesDts = async (
+  { path: filePath, data }: TransformInfo,
+  { namedExports, dts }: TransformCssModules
+) => {
+  const { cssModules } = data;
+
+  if (dts && cssModules) {
+    const dtsPath = `${filePath}.d.ts`;
+    const dtsContent = getCssModulesDts(cssModules, getCssModulesExports(cssModules, namedExports));
+    const existingContent = await fs.promises.readFile(dtsPath, 'utf8').catch(() => null);
+
+    if (existingContent !== dtsContent) {
+      await fs.promises.writeFile(dtsPath, dtsContent);
+    }
+  }
+};
@@ -1,19 +1,42 @@
 import type { BuildOptions } from 'esbuild';
+import type { BundleAsyncOptions, CustomAtRules } from 'lightningcss';
 import type {
   TransformResult as RollupTransformResult,
   OutputChunk,
+  RenderedChunk,
   ExistingRawSourceMap,
 } from 'rollup';
 import type { Options as SassOptions } from 'sass';
 import type { RenderOptions as StylusOptions } from 'stylus';
+import type { AcceptedPlugin, ProcessOptions } from 'postcss';
 import type PostcssModulesPlugin from 'postcss-modules';
+import type { Config as SvgoConfig } from 'svgo';
 import type { FilterPattern } from '@rollup/pluginutils';
 
 type RollupTransformResultObj = Exclude<RollupTransformResult, string | null | void>;
 
+declare module 'rollup' {
+  interface OutputChunk {
+    /** Information about the css of this chunk. Available after the "generateBundle" hook of this plugin. */
+    cssMetadata?: ChunkCssMetadata;
+  }
+}
+
+/** Information about the css of a chunk. */
+export interface ChunkCssMetadata {
+  /** The output file names of the extracted css files the chunk needs, in the order they have to be loaded. */
+  importedCss: string[];
+}
+
 export interface RollupCssOptions {
-  /** Custom options for esbuild. */
+  /** The backend which bundles "@import" rules, resolves "url()" tokens and minifies the css. */
+  backend: CssBackend;
+  /** Custom options for esbuild. Only used if esbuild is the backend. */
   esbuild: BuildOptions;
+  /** Custom options for lightningcss. Only used if lightningcss is the backend. */
+  lightningcss: LightningcssOptions;
+  /** The browsers for which modern css syntax is lowered. Overrides the targets of the esbuild and lightningcss options. */
+  targets: RollupCssTargets;
   /** Include pattern for files which shall be processed by this plugin. */
   include: FilterPattern;
   /** Exclude pattern for files which shall not be processed by this plugin. */
@@ -28,11 +51,64 @@ export interface RollupCssOptions {
   transform: RollupCssTransform;
   /** Customizes the resolution algorithm for "url()" tokens and "@import" rules. */
   resolve: RollupCssResolve;
+  /** Options for the persistent on-disk cache of processed css files. */
+  cache: RollupCssCache;
+  /** Options for adding the extracted css of the entry chunks to a html file. */
+  html: RollupCssHtml;
 }
 
+/**
+ * - "esbuild": Uses esbuild.
+ * - "lightningcss": Uses lightningcss, which additionally lowers modern syntax (e.g. nesting or color functions) and adds vendor prefixes for the configured "targets".
+ */
+export type CssBackend = 'esbuild' | 'lightningcss';
+
+/**
+ * - string | string[]: A browserslist query (e.g. "defaults, not ie 11"). Requires the "browserslist" package.
+ * - string[]: A list of esbuild targets (e.g. ["chrome90", "safari14"]).
+ * - null: No lowering besides the targets of the esbuild or lightningcss options.
+ *
+ * Syntax which can't be lowered by the backend for the resolved targets is reported as a warning.
+ */
+export type RollupCssTargets = string | string[] | null;
+
+export type LightningcssOptions = Omit<
+  BundleAsyncOptions<CustomAtRules>,
+  | 'filename'
+  | 'projectRoot'
+  | 'minify'
+  | 'sourceMap'
+  | 'inputSourceMap'
+  | 'analyzeDependencies'
+  | 'resolver'
+>;
+
 export type RollupCssOutput = {
   /** Customize how css for chunks is outputted. */
   cssForChunks: CssForChunks;
+  /**
+   * The file name pattern of the extracted css files for chunks.
+   * Supports the "[name]" (name of the chunk) and "[hash]" (hash of the final css content) placeholders.
+   */
+  cssForChunksFileNames: string;
+  /** Whether css which is imported by multiple chunks is extracted once into a shared css file instead of into the css file of each chunk. */
+  cssForChunksShared: boolean;
+  /**
+   * The file name pattern of the shared css files.
+   * Supports the "[name]" (name of the first css file which is shared) and "[hash]" (hash of the final css content) placeholders.
+   */
+  cssForChunksSharedFileNames: string;
+  /**
+   * Whether dynamic imports load the extracted css files of the imported chunk with "<link>" elements and wait for them before they resolve.
+   * The css of dynamically imported chunks is then no longer part of the css files and "importedCss" of the importing chunks.
+   * Only supported for the "es" output format.
+   */
+  cssForDynamicImports: boolean;
+  /**
+   * Whether a json manifest is emitted which describes the css source files, their output files and the chunks they belong to.
+   * With true the manifest is emitted as "css-manifest.json", with a string the string is used as its file name.
+   */
+  manifest: boolean | string;
   /** Whether to output css files as assets. */
   cssAsAssets: boolean;
   /** Whether to output sourcemap files for the outputted css. */
@@ -78,6 +154,11 @@ export type CssForChunksExtractResult = {
   source?: string;
   /** The used inputs of the css file. Of omited the default inputs (all) are used. */
   inputs?: CssInputItem[];
+  /**
+   * The sourcemap of the css file. With null no sourcemap is outputted.
+   * If omitted the default sourcemap (concatenated sourcemaps) is used, but only if the default source is used as well.
+   */
+  map?: ExistingRawSourceMap | null;
 };
 
 /** A css dependency of a chunk. */
@@ -86,6 +167,8 @@ export interface CssForChunksExtractDependency {
   inputFile: string;
   /** The output asset css file path. Available if css is extracted as an asset. */
   assetFile: string | null;
+  /** The output shared css file path. Available if the css is imported by multiple chunks and shared css files are enabled, in that case it isn't part of the default source. */
+  sharedFile: string | null;
   /** Whether the css originates from a dynamic chunk. */
   dynamicOrigin: boolean;
   /** The inputs of this css dependency. */
@@ -97,8 +180,32 @@ export interface CssForChunksExtractDependency {
 }
 
 export type CssForChunksInject =
+  /** Whether to use the inject option. With true css will be injected for chunks in the default way, with false no injections take place. */
   | boolean
-  | ((chunk: string, cssInfo: string, suggestedCode: {}) => string); // result should be outputable into css files
+  /** A function which customizes the injection process. */
+  | ((
+      chunk: RenderedChunk,
+      cssDependencies: CssForChunksInjectDependency[],
+      defaultResult: Required<CssForChunksInjectResult>
+    ) => CssForChunksInjectResult | boolean | null | undefined);
+
+/** The result of a CssForChunk injection. */
+export type CssForChunksInjectResult = {
+  /** The css which shall be injected. If omitted the default css (concatenated css code) is used. The urls of its assets are relative to the chunk. */
+  css?: string;
+  /**
+   * The js code which is appended to the chunk and injects the css at runtime. If omitted the default code (which adds a "<style>" element) is generated from the "css".
+   * The default code resolves the asset urls against the chunk url, which is "import.meta.url" for es chunks and "document.currentScript" for all other formats.
+   * If a non es chunk isn't executed by a "<script>" element (e.g. a loader evaluates it), it is expected at its output file name relative to "document.baseURI".
+   */
+  code?: string;
+};
+
+/** A css dependency of a chunk whose css is injected. */
+export type CssForChunksInjectDependency = Omit<
+  CssForChunksExtractDependency,
+  'assetFile' | 'sharedFile' | 'dynamicOrigin'
+>;
 
 export type RollupCssAssets = {
   /** Customizes whether the input directory of the asset shall be preserved in the output structure. */
@@ -111,8 +218,55 @@ export type RollupCssAssets = {
   file: AssetFile;
   /** Customizes the the content of the "url()" token in the outputted css file. */
   url: AssetUrl;
+  /** Customizes the transforms which run on the assets before they are outputted or inlined. */
+  transform: RollupCssAssetsTransform;
 };
 
+export type RollupCssAssetsTransform = {
+  /** Customize or enable the built-in svg minifier which uses the "svgo" package. Its disabled by default. */
+  svgo: AssetTransformer<Omit<SvgoConfig, 'path'>>;
+  /** Custom asset transforms which run after the built-in ones in the passed order. */
+  custom: AssetTransformCustom | AssetTransformCustom[] | null;
+};
+
+export type AssetTransformer<O extends Record<string, any>> =
+  /** Customize the RegExp and pass additional options. */
+  | [
+      /** Matching assets are transformed by the transformer. */
+      test: RegExp,
+      /** Options which are passed to the transformer. */
+      options: O
+    ]
+  /** Matching assets are transformed by the transformer with the default options. */
+  | RegExp
+  /** This transformer is disabled. */
+  | null;
+
+/**
+ * Transforms the content of an asset.
+ * @param info Information about the asset.
+ * @returns The transformed content or null / undefined if the content stays the same.
+ */
+export type AssetTransformCustom = (
+  info: AssetTransformInfo
+) =>
+  | Uint8Array
+  | string
+  | null
+  | undefined
+  | void
+  | Promise<Uint8Array | string | null | undefined | void>;
+
+/** Information about the asset which is transformed. */
+export interface AssetTransformInfo {
+  /** The content of the asset, already transformed by the previous transforms. */
+  source: Buffer;
+  /** The input path of the asset. */
+  path: string;
+  /** The input paths of all css files which use the asset. Each asset is transformed once per build, after all css files are processed. */
+  cssFiles: string[];
+}
+
 export type AssetsPreserveDir =
   /**
    * Customizes for which files the directory shall be preserved.
@@ -129,18 +283,25 @@ export type AssetsPreserveDir =
   | boolean;
 
 export type AssetsInline =
-  /** An RegExp or function to customize the inline process. */
+  /** An RegExp, function or maximum size to customize the inline process. */
   | AssetsInlineCustom
-  /** An array of RegExps or functions to customize the inline process. */
+  /** An array of RegExps, functions or maximum sizes to customize the inline process. The asset is inlined if any of them matches. */
   | AssetsInlineCustom[]
   /** With true all assets are inlined. With false no assets are inlined. */
   | boolean;
 
 export type AssetsInlineCustom =
-  /** A function which gets the assets input path and returns a boolean which indicates whether the asset will be inlined or not. */
-  | ((inputPath: string) => boolean)
+  /**
+   * A function which decides whether the asset will be inlined or not.
+   * @param inputPath The input path of the asset.
+   * @param size The size of the asset in bytes, after it was transformed.
+   * @returns true if the asset should be inlined, false otherwise.
+   */
+  | ((inputPath: string, size: number) => boolean)
   /** A RegExp which matches against the assets input path. If it matches the asset will be inlined. */
-  | RegExp;
+  | RegExp
+  /** The maximum size in bytes. Assets which are smaller or equal are inlined. */
+  | number;
 
 export type AssetFile =
   /**
@@ -148,9 +309,15 @@ export type AssetFile =
    * @param inputPath The input file path of the asset.
    * @param defaultName The default output name.
    * @param isCssFile Whether this asset is a css file.
+   * @param inputPaths All input file paths of the asset. Assets with identical content are outputted only once, so this contains the paths of all of them.
    * @returns A output name or null if the file shouldn't be outputted.
    */
-  | ((inputPath: string, defaultName: string, isCssFile: boolean) => string | null)
+  | ((
+      inputPath: string,
+      defaultName: string,
+      isCssFile: boolean,
+      inputPaths: string[]
+    ) => string | null)
   /** With true all assets are outputted, with false no assets are outputted. */
   | boolean;
 
@@ -179,6 +346,8 @@ export interface AssetUrlInfo {
 export interface AssetOutputMeta {
   /** The input path of the asset. */
   inputPath: string;
+  /** All input paths of the asset. Assets with identical content are outputted only once, so this contains the paths of all of them. */
+  inputPaths: string[];
   output: {
     /** The name of the asset before it was substituted by rollup with the "output.assetFileNames" option. */
     name: string;
@@ -196,12 +365,31 @@ export type RollupCssProcessors = {
   less: CssProcessor<Less.Options>;
   /** Customize or disable the built-in stylus pre processor. */
   stylus: CssProcessor<StylusOptions>;
-  /** Customize or disable the built-in css-modules pre processor. */
+  /** Customize or disable the built-in sugarss parser. */
+  sugarss: CssProcessor<Omit<ProcessOptions, 'parser' | 'syntax' | 'from' | 'to' | 'map'>>;
+  /** Customize or disable the built-in postcss processor. */
+  postcss: CssProcessor<PostcssProcessorOptions>;
+  /**
+   * Customize or disable the built-in css-modules pre processor. Supports "postcss-modules" 5 and 6.
+   * Composed files are loaded by the plugin itself, so they are preprocessed like imported files, the "Loader" option is ignored.
+   */
   cssModules: CssProcessor<Parameters<PostcssModulesPlugin>[0]>;
   /** A custom css processor. */
   custom: CssProcessorCustom;
 };
 
+export type PostcssProcessorOptions = {
+  /** The postcss plugins. If omitted the plugins are loaded from a postcss config file. */
+  plugins?: AcceptedPlugin[];
+  /** Additional options which are passed to postcss. */
+  options?: ProcessOptions;
+  /**
+   * Whether to load a postcss config file (e.g. "postcss.config.js" or ".postcssrc") if no plugins are passed.
+   * With true the search starts in the directory of the processed file, a string customizes the directory where the search starts.
+   */
+  config?: boolean | string;
+};
+
 export type CssProcessor<O extends Record<string, any>> =
   /** Customize the RegExp and pass additional options. */
   | [
@@ -218,8 +406,28 @@ export type CssProcessor<O extends Record<string, any>> =
 export type RollupCssTransform = {
   /** Customizes the js transform. */
   result: Transform;
+  /** Options for the js exports of css modules files. */
+  cssModules: TransformCssModules;
 };
 
+export type TransformCssModules = {
+  /** Customizes whether the class names of css modules files are exported as named exports. */
+  namedExports: CssModulesNamedExports;
+  /** Whether to write a typescript declaration file next to each css modules file. (e.g. "button.module.scss.d.ts") */
+  dts: boolean;
+};
+
+export type CssModulesNamedExports =
+  /**
+   * Customizes the name of the export for each class name.
+   * @param className The class name as written in the css modules file.
+   * @param defaultName The default export name or null if the class name can't be converted to a valid export name.
+   * @returns The export name or null if the class name shouldn't be exported.
+   */
+  | ((className: string, defaultName: string | null) => string | null)
+  /** With true every class name is exported as named export (kebab-case class names are converted to camelCase), with false no named exports take place. */
+  | boolean;
+
 export type CssProcessorCustom =
   | ((info: CssProcessorInfo) => CssProcessorResult | Promise<CssProcessorResult>)
   | Map<RegExp, (info: CssProcessorInfo) => CssProcessorResult | Promise<CssProcessorResult>>
@@ -251,9 +459,35 @@ export type TransformResult = Pick<
   meta?: Record<string, any>;
 };
 
+/** Information about a processed css file which is used to generate its js module. */
+export interface TransformInfo {
+  /** The input path of the css file. */
+  path: string;
+  /** The processed css code. Placeholders for assets are substituted with their final urls in the output. */
+  css: string;
+  /** The sourcemap of the processed css code. */
+  map?: ExistingRawSourceMap;
+  /** The inputs of the css file. */
+  inputs: CssInputItem[];
+  /** The data generated by the css processors. (e.g. "cssModules" contains the class name mapping of a css modules file) */
+  data: Record<string, any>;
+}
+
 export type Transform =
-  | ((obj: any) => TransformResult | Promise<TransformResult>)
-  | TransformResult;
+  /**
+   * Customizes the js module which is generated for the css file.
+   * @param info Information about the processed css file.
+   * @param defaultResult The default result.
+   * @returns The result which describes the js module.
+   */
+  | ((
+      info: TransformInfo,
+      defaultResult: TransformResult
+    ) => TransformResult | Promise<TransformResult>)
+  /** The passed result is used for all css files. */
+  | TransformResult
+  /** The default result is used. Css modules files export their class name mapping and all other files export undefined. */
+  | null;
 
 export type RollupCssResolve =
   /**
@@ -309,12 +543,47 @@ export interface CssInputItem {
   path: string;
   /** Whether this input file is considered external. */
   external: boolean;
-  /** Whether this input file is inlined in the css file as a dataurl.  */
+  /** Whether this input file is inlined in the css file as a dataurl. Set once all css files of the build are processed, because the transformed asset decides it. */
   inlined?: boolean;
-  /** The generated placeholder for this input file. (Is substituted with the correct output file path) */
+  /** The encoding of the dataurl if this input file is inlined. SVGs are url encoded, all other files are base64 encoded. */
+  encoding?: 'base64' | 'url';
+  /** The generated placeholder for this input file. (Is substituted with the correct output file path or the dataurl if it is inlined) */
   placeholder?: string;
 }
 
+export type RollupCssCache =
+  /** With true the cache is stored in the default directory "node_modules/.cache/rollup-css", with false no cache is used. */
+  | boolean
+  /** An object which makes customizations possible. */
+  | {
+      /** The directory in which the cache entries are stored. */
+      dir?: string;
+      /** Called at the end of each build with the cache statistics of this build. */
+      stats?: (stats: CacheStats) => void;
+    };
+
+export type RollupCssHtml = {
+  /**
+   * The html file the "<link>" tags are added to.
+   * If a html asset with this file name is part of the bundle, it is modified. Otherwise its the path of a html template file.
+   */
+  template: string;
+  /** The output file name of the html file which is generated from a template file. Defaults to the name of the template file. */
+  fileName?: string;
+  /** The hash algorithm of the "integrity" attributes. With null no "integrity" attributes are added. */
+  integrity?: 'sha256' | 'sha384' | 'sha512' | null;
+  /** Whether '<link rel="preload" as="style">' hints are added for the css of dynamically imported chunks. */
+  preload?: boolean;
+} | null;
+
+/** The cache statistics of a build. */
+export interface CacheStats {
+  /** The number of css files whose processed result was read from the cache. */
+  hits: number;
+  /** The number of css files which had to be processed because they weren't cached or their cache entry was outdated or corrupted. */
+  misses: number;
+}
+
 export interface PluginMeta {
   inputs: CssInputItem[];
   id: string;
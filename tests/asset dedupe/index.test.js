@@ -0,0 +1,56 @@
+const path = require('path');
+const rollupBundle = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+const bundleDir = path.resolve(__dirname, './bundle').replace(/\\/g, '/');
+
+const getAssets = (output) =>
+  output
+    .filter(({ type, fileName }) => fileName.endsWith('.png'))
+    .map(({ fileName }) => fileName)
+    .sort();
+
+test('assets with identical content are emitted once', async () => {
+  const output = await rollupBundle(input);
+  const { source: css } = output.find(({ fileName }) => fileName.endsWith('.css'));
+
+  expect(getAssets(output)).toEqual(['assets/image.png', 'assets/other.png']);
+  expect(css).toMatch(/\.a\s*{\s*background: url\(image\.png\);/);
+  expect(css).toMatch(/\.b\s*{\s*background: url\(image\.png\);/);
+  expect(css).toMatch(/\.other\s*{\s*background: url\(other\.png\);/);
+});
+
+test('asset callbacks get all input paths of merged assets', async () => {
+  const fileCalls = [];
+  const urlCalls = [];
+  const output = await rollupBundle(input, {
+    assets: {
+      file: (inputPath, defaultName, isCssFile, inputPaths) => {
+        fileCalls.push({ inputPath, isCssFile, inputPaths });
+        return defaultName;
+      },
+      url: ({ assetFileMeta }, defaultUrl) => {
+        urlCalls.push(assetFileMeta);
+        return defaultUrl;
+      },
+    },
+  });
+  const mergedPaths = [`${bundleDir}/a/image.png`, `${bundleDir}/b/image.png`];
+
+  expect(getAssets(output)).toEqual(['assets/image.png', 'assets/other.png']);
+  expect(fileCalls.filter(({ isCssFile }) => !isCssFile)).toEqual([
+    { inputPath: mergedPaths[0], isCssFile: false, inputPaths: mergedPaths },
+    {
+      inputPath: `${bundleDir}/other.png`,
+      isCssFile: false,
+      inputPaths: [`${bundleDir}/other.png`],
+    },
+  ]);
+  // the url callback is called for each rendered css file, so only the reported paths are compared
+  expect(urlCalls.filter(({ output }) => output.fileName === 'assets/image.png')).not.toHaveLength(
+    0
+  );
+  urlCalls.forEach(({ inputPath, inputPaths, output }) => {
+    expect(inputPaths).toEqual(output.fileName === 'assets/image.png' ? mergedPaths : [inputPath]);
+  });
+});
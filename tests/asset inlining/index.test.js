@@ -0,0 +1,84 @@
+const fs = require('fs');
+const path = require('path');
+const { rollup } = require('rollup');
+const { esbuildResolve } = require('rollup-plugin-esbuild-resolve');
+const { RollupCss } = require('../../dist/index');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+const bundleDir = path.resolve(__dirname, './bundle');
+
+const bundleInlining = async (inline) => {
+  let inputs = [];
+  const bundle = await rollup({
+    input,
+    plugins: [
+      esbuildResolve(),
+      RollupCss({ backend: global.backend, assets: { inline } }),
+      {
+        name: 'inputs',
+        generateBundle() {
+          inputs = Array.from(this.getModuleIds())
+            .map((id) => this.getModuleInfo(id).meta['rollup-css'])
+            .filter(Boolean)
+            .flatMap((meta) => meta.inputs);
+        },
+      },
+    ],
+  });
+  const { output } = await bundle.generate({ assetFileNames: 'assets/[name][extname]' });
+  const getInput = (fileName) =>
+    inputs.find((inputItem) => path.basename(inputItem.path) === fileName);
+
+  return {
+    css: output.find(({ fileName }) => fileName.endsWith('.css')).source,
+    assets: output.map(({ fileName }) => fileName).filter((fileName) => !fileName.endsWith('.css')),
+    getInput,
+  };
+};
+
+test('assets up to the maximum size are inlined', async () => {
+  const { css, assets, getInput } = await bundleInlining(1024);
+  const small = fs.readFileSync(path.resolve(bundleDir, 'small.png')).toString('base64');
+
+  expect(css).toContain(`url(data:image/png;base64,${small})`);
+  expect(css).toContain('url(large.png)');
+  expect(assets).toContain('assets/large.png');
+  expect(assets).not.toContain('assets/small.png');
+  expect(getInput('small.png')).toMatchObject({ inlined: true, encoding: 'base64' });
+  expect(getInput('large.png')).toMatchObject({ inlined: false });
+  expect(getInput('large.png').encoding).toBeUndefined();
+});
+
+test('maximum sizes can be combined with other conditions', async () => {
+  const { css, assets } = await bundleInlining([0, /large\.png$/]);
+
+  expect(css).toContain('url(data:image/png;base64,');
+  expect(assets).toEqual(expect.arrayContaining(['assets/small.png', 'assets/icon.svg']));
+  expect(assets).not.toContain('assets/large.png');
+});
+
+test('inline functions get the size of the asset', async () => {
+  const calls = [];
+  const { assets } = await bundleInlining((inputPath, size) => {
+    calls.push([path.basename(inputPath), size]);
+    return size > 1024;
+  });
+
+  // urls can be resolved in parallel
+  expect(calls.sort(([a], [b]) => a.localeCompare(b))).toEqual([
+    ['icon.svg', fs.statSync(path.resolve(bundleDir, 'icon.svg')).size],
+    ['large.png', fs.statSync(path.resolve(bundleDir, 'large.png')).size],
+    ['small.png', fs.statSync(path.resolve(bundleDir, 'small.png')).size],
+  ]);
+  expect(assets).toEqual(expect.arrayContaining(['assets/small.png', 'assets/icon.svg']));
+  expect(assets).not.toContain('assets/large.png');
+});
+
+test('svgs are inlined url encoded', async () => {
+  const { css, getInput } = await bundleInlining(/\.svg$/);
+
+  expect(css).toContain(
+    'url("data:image/svg+xml,%3Csvg xmlns=%22http://www.w3.org/2000/svg%22 viewBox=%220 0 16 16%22%3E%3Ccircle cx=%228%22 cy=%228%22 r=%228%22 fill=%22%23123456%22/%3E%3C/svg%3E%0A")'
+  );
+  expect(getInput('icon.svg')).toMatchObject({ inlined: true, encoding: 'url' });
+});
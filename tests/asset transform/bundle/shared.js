@@ -0,0 +1,2 @@
+export { default as css } from './input.css';
+export { default as otherCss } from './other.css';
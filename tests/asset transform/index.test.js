@@ -0,0 +1,99 @@
+const fs = require('fs');
+const path = require('path');
+const rollupBundle = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+const bundleDir = path.resolve(__dirname, './bundle').replace(/\\/g, '/');
+const minifiedIcon =
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16"><circle cx="8" cy="8" r="8" fill="#123456"/></svg>';
+
+// assets are transformed in parallel, so the order of the transform calls isn't fixed
+const sortByPath = (calls) => [...calls].sort((a, b) => a.path.localeCompare(b.path));
+
+const getSource = (output, fileName) =>
+  Buffer.from(output.find((file) => file.fileName === fileName).source).toString();
+
+test('assets are emitted unchanged by default', async () => {
+  const output = await rollupBundle(input);
+
+  expect(getSource(output, 'assets/icon.svg')).toBe(
+    fs.readFileSync(path.resolve(bundleDir, 'icon.svg'), 'utf8')
+  );
+});
+
+test('svg assets are minified by the built-in svgo transform', async () => {
+  const output = await rollupBundle(input, { assets: { transform: { svgo: /\.svg$/ } } });
+
+  expect(getSource(output, 'assets/icon.svg')).toBe(minifiedIcon);
+});
+
+test('custom transforms run in order after the built-in ones', async () => {
+  const calls = [];
+  const output = await rollupBundle(input, {
+    assets: {
+      transform: {
+        svgo: /\.svg$/,
+        custom: [
+          ({ source, path: assetPath, cssFiles }) => {
+            calls.push({ path: assetPath, cssFiles });
+            return assetPath.endsWith('.svg') ? source.toString().replace('#123456', 'red') : null;
+          },
+          ({ source, path: assetPath }) =>
+            assetPath.endsWith('.svg') ? `${source.toString()}\n` : undefined,
+        ],
+      },
+    },
+  });
+
+  expect(getSource(output, 'assets/icon.svg')).toBe(`${minifiedIcon.replace('#123456', 'red')}\n`);
+  expect(getSource(output, 'assets/image.png')).toBe(
+    fs.readFileSync(path.resolve(bundleDir, 'image.png')).toString()
+  );
+  expect(sortByPath(calls)).toEqual([
+    { path: `${bundleDir}/icon.svg`, cssFiles: [`${bundleDir}/input.css`] },
+    { path: `${bundleDir}/image.png`, cssFiles: [`${bundleDir}/input.css`] },
+  ]);
+});
+
+test('assets are transformed once with all css files if their size is needed for inlining', async () => {
+  const calls = [];
+  const output = await rollupBundle(path.resolve(__dirname, './bundle/shared.js'), {
+    assets: {
+      inline: (inputPath, size) => inputPath.endsWith('.svg') && size < 200,
+      transform: {
+        svgo: /\.svg$/,
+        custom: ({ path: assetPath, cssFiles }) => {
+          calls.push({ path: assetPath, cssFiles });
+        },
+      },
+    },
+  });
+
+  expect(output.some(({ fileName }) => fileName === 'assets/icon.svg')).toBe(false);
+  expect(getSource(output, 'assets/image.png')).toBe(
+    fs.readFileSync(path.resolve(bundleDir, 'image.png')).toString()
+  );
+  expect(sortByPath(calls)).toEqual([
+    {
+      path: `${bundleDir}/icon.svg`,
+      cssFiles: [`${bundleDir}/input.css`, `${bundleDir}/other.css`],
+    },
+    { path: `${bundleDir}/image.png`, cssFiles: [`${bundleDir}/input.css`] },
+  ]);
+});
+
+test('inlining uses the transformed asset', async () => {
+  const output = await rollupBundle(input, {
+    assets: { inline: 200, transform: { svgo: /\.svg$/ } },
+  });
+  const { source: css } = output.find(({ fileName }) => fileName.endsWith('.css'));
+
+  expect(output.some(({ fileName }) => fileName === 'assets/icon.svg')).toBe(false);
+  expect(css).toContain(
+    `url("data:image/svg+xml,${encodeURIComponent(minifiedIcon)
+      .replace(/%20/g, ' ')
+      .replace(/%3D/g, '=')
+      .replace(/%3A/g, ':')
+      .replace(/%2F/g, '/')}")`
+  );
+});
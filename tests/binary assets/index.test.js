@@ -0,0 +1,15 @@
+const fs = require('fs');
+const path = require('path');
+const rollupBundle = require('../rollupBundle');
+
+test('emit binary assets unchanged', async () => {
+  const output = await rollupBundle(path.resolve(__dirname, './bundle/input.js'));
+  const getAssetSource = (fileName) => output.find((file) => file.fileName === fileName).source;
+
+  ['image.png', 'font.woff2'].forEach((file) => {
+    const original = fs.readFileSync(path.resolve(__dirname, './bundle', file));
+    const emitted = getAssetSource(`assets/${file}`);
+
+    expect(Buffer.from(emitted).equals(original)).toBe(true);
+  });
+});
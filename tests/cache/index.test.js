@@ -0,0 +1,77 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const rollupBundle = require('../rollupBundle');
+
+const bundleDir = path.resolve(__dirname, './bundle');
+// esbuild only builds files inside of the working directory
+const fixturesDir = path.resolve(__dirname, '../../out/fixtures');
+
+// the fixture is copied to a temporary directory for each backend, so the generated colors file isn't shared between parallel runs
+let fixtureDir;
+let input;
+let colorsPath;
+
+const writeColors = (color) => fs.writeFileSync(colorsPath, `$primary: ${color};\n`);
+
+const getCss = (output) => output.find(({ fileName }) => fileName === 'input.css').source;
+
+const bundleCached = async (cacheDir) => {
+  let stats;
+  const output = await rollupBundle(input, {
+    cache: {
+      dir: cacheDir,
+      stats: (buildStats) => {
+        stats = buildStats;
+      },
+    },
+  });
+
+  return { css: getCss(output), stats };
+};
+
+let cacheDir;
+
+beforeEach(() => {
+  cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rollup-css-cache-'));
+  fs.mkdirSync(fixturesDir, { recursive: true });
+  fixtureDir = fs.mkdtempSync(path.join(fixturesDir, `cache-${global.backend}-`));
+  fs.cpSync(bundleDir, fixtureDir, { recursive: true });
+  input = path.join(fixtureDir, 'input.js');
+  colorsPath = path.join(fixtureDir, '_colors.scss');
+  writeColors('red');
+});
+
+afterEach(() => {
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+  fs.rmSync(fixtureDir, { recursive: true, force: true });
+});
+
+test('processed css is read from the cache', async () => {
+  const first = await bundleCached(cacheDir);
+  const second = await bundleCached(cacheDir);
+
+  expect(first.stats).toEqual({ hits: 0, misses: 1 });
+  expect(second.stats).toEqual({ hits: 1, misses: 0 });
+  expect(second.css).toBe(first.css);
+});
+
+test('cache entries are invalidated if a dependency changes', async () => {
+  await bundleCached(cacheDir);
+  writeColors('#abcdef');
+  const { css, stats } = await bundleCached(cacheDir);
+
+  expect(stats).toEqual({ hits: 0, misses: 1 });
+  expect(css).toContain('color: #abcdef;');
+});
+
+test('corrupted cache entries fall back to a fresh compile', async () => {
+  await bundleCached(cacheDir);
+  fs.readdirSync(cacheDir).forEach((entry) => {
+    fs.writeFileSync(path.join(cacheDir, entry), '{"version":1,"depend');
+  });
+  const { css, stats } = await bundleCached(cacheDir);
+
+  expect(stats).toEqual({ hits: 0, misses: 1 });
+  expect(css).toContain('color: red;');
+});
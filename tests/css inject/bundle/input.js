@@ -0,0 +1,3 @@
+import './input.css';
+
+export const lazy = () => import('./lazy');
@@ -0,0 +1,127 @@
+const vm = require('vm');
+const path = require('path');
+const rollupBundle = require('../rollupBundle');
+
+const getChunk = (output, name) =>
+  output.find((file) => file.type === 'chunk' && file.name === name);
+
+test('inject css into chunks', async () => {
+  const output = await rollupBundle(path.resolve(__dirname, './bundle/input.js'), {
+    output: { cssForChunks: 'inject', cssAsAssets: false },
+  });
+  const inputChunk = getChunk(output, 'input');
+  const lazyChunk = getChunk(output, 'lazy');
+
+  expect(inputChunk.code).toContain(`document.createElement('style')`);
+  expect(inputChunk.code).toContain('.input');
+  expect(inputChunk.code).toContain('assets/image.svg');
+  expect(inputChunk.code).not.toContain('.lazy');
+  expect(inputChunk.code).not.toContain('^<<^');
+  expect(lazyChunk.code).toContain('.lazy');
+  expect(output.find((file) => file.fileName.endsWith('.css'))).toBeUndefined();
+});
+
+test('injected asset urls are resolved against the chunk url', async () => {
+  const output = await rollupBundle(
+    path.resolve(__dirname, './bundle/input.js'),
+    { output: { cssForChunks: 'inject', cssAsAssets: false } },
+    { format: 'cjs', entryFileNames: 'js/[name].js', chunkFileNames: 'js/[name].js' }
+  );
+  const styles = [];
+  const document = {
+    currentScript: { src: 'https://cdn.example.com/widget/js/input.js' },
+    baseURI: 'https://host.example.com/page/',
+    createElement: () => ({ setAttribute() {} }),
+    head: { appendChild: (style) => styles.push(style) },
+  };
+
+  expect(getChunk(output, 'input').code).toContain('new URL("../assets/image.svg", base)');
+
+  vm.runInNewContext(getChunk(output, 'input').code, { document, URL, exports: {} });
+
+  expect(styles).toHaveLength(1);
+  expect(styles[0].textContent).toMatch(
+    /url\("?https:\/\/cdn\.example\.com\/widget\/assets\/image\.svg"?\)/
+  );
+});
+
+test('injected asset urls fall back to the chunk file name without a current script', async () => {
+  const output = await rollupBundle(
+    path.resolve(__dirname, './bundle/input.js'),
+    { output: { cssForChunks: 'inject', cssAsAssets: false } },
+    { format: 'amd', entryFileNames: 'js/[name].js', chunkFileNames: 'js/[name].js' }
+  );
+  const styles = [];
+  const document = {
+    currentScript: null,
+    baseURI: 'https://host.example.com/page/',
+    createElement: () => ({ setAttribute() {} }),
+    head: { appendChild: (style) => styles.push(style) },
+  };
+
+  vm.runInNewContext(getChunk(output, 'input').code, { document, URL, define() {} });
+
+  expect(styles).toHaveLength(1);
+  expect(styles[0].textContent).toMatch(
+    /url\("?https:\/\/host\.example\.com\/page\/assets\/image\.svg"?\)/
+  );
+});
+
+test('injected asset urls of es chunks are resolved against "import.meta.url"', async () => {
+  const output = await rollupBundle(path.resolve(__dirname, './bundle/input.js'), {
+    output: { cssForChunks: 'inject', cssAsAssets: false },
+  });
+  const { code } = getChunk(output, 'input');
+
+  expect(code).toContain('var base = import.meta.url;');
+  expect(code).toContain('new URL("assets/image.svg", base).href');
+});
+
+test('inlined assets are injected as data urls', async () => {
+  const output = await rollupBundle(path.resolve(__dirname, './bundle/input.js'), {
+    output: { cssForChunks: 'inject', cssAsAssets: false },
+    assets: { inline: true },
+  });
+  const { code } = getChunk(output, 'input');
+
+  expect(code).toContain('url(data:image/svg+xml,dynamic)');
+  expect(code).not.toContain('var base');
+  expect(output.some(({ fileName }) => fileName.endsWith('.svg'))).toBe(false);
+});
+
+test('injected css changes the chunk hash', async () => {
+  const getInputFileName = async (minify) =>
+    getChunk(
+      await rollupBundle(
+        path.resolve(__dirname, './bundle/input.js'),
+        { output: { cssForChunks: 'inject', cssAsAssets: false, minify } },
+        { entryFileNames: '[name]-[hash].js' }
+      ),
+      'input'
+    ).fileName;
+
+  expect(await getInputFileName(false)).not.toBe(await getInputFileName(true));
+});
+
+test('inject css with custom function', async () => {
+  const output = await rollupBundle(path.resolve(__dirname, './bundle/input.js'), {
+    output: {
+      cssForChunks: {
+        inject: (chunk, cssDependencies, { css }) =>
+          chunk.name === 'input' && {
+            code: `window.injected = ${JSON.stringify(
+              cssDependencies.map(({ inputFile }) => path.basename(inputFile))
+            )} && ${JSON.stringify(css)};`,
+          },
+      },
+      cssAsAssets: false,
+    },
+  });
+  const inputChunk = getChunk(output, 'input');
+  const lazyChunk = getChunk(output, 'lazy');
+
+  expect(inputChunk.code).toContain('window.injected = ["input.css"]');
+  expect(inputChunk.code).toContain('assets/image.svg');
+  expect(inputChunk.code).not.toContain(`document.createElement('style')`);
+  expect(lazyChunk.code).not.toContain('.lazy');
+});
@@ -0,0 +1,51 @@
+const path = require('path');
+const { rollup } = require('rollup');
+const { esbuildResolve } = require('rollup-plugin-esbuild-resolve');
+const { RollupCss } = require('../../dist/index');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+const uiDir = path.resolve(__dirname, './bundle/ui');
+
+const bundleComposes = async () => {
+  const bundle = await rollup({
+    input,
+    plugins: [
+      esbuildResolve(),
+      RollupCss({
+        backend: global.backend,
+        resolve: (pathToResolve, importer, context, defaultResult) =>
+          pathToResolve.startsWith('@ui/')
+            ? { path: path.join(uiDir, pathToResolve.slice(4)), external: false }
+            : defaultResult,
+      }),
+    ],
+  });
+  const { output } = await bundle.generate({ dir: 'out' });
+
+  return {
+    css: output.find(({ fileName }) => fileName === 'input.css').source,
+    code: output.find(({ fileName }) => fileName === 'input.js').code,
+    watchFiles: bundle.watchFiles.map((watchFile) => path.normalize(watchFile)),
+  };
+};
+
+test('composes targets are resolved with the resolve option', async () => {
+  const { css, code } = await bundleComposes();
+
+  expect(css).toMatch(/\.base-module_base_[\w-]+\s*{\s*display: inline-block;\s*}/);
+  expect(code).toMatch(/"button":"button-module_button_[\w-]+ base-module_base_[\w-]+/);
+});
+
+test('composed files are preprocessed', async () => {
+  const { css } = await bundleComposes();
+
+  expect(css).toMatch(/\.accent-module_accent_[\w-]+\s*{\s*border-color: (blue|#00f);\s*}/);
+  expect(css).not.toContain('$accent');
+});
+
+test('composed files are watched', async () => {
+  const { watchFiles } = await bundleComposes();
+
+  expect(watchFiles).toContain(path.join(uiDir, 'base.module.css'));
+  expect(watchFiles).toContain(path.join(uiDir, 'accent.module.scss'));
+});
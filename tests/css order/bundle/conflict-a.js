@@ -0,0 +1,2 @@
+export { default as x } from './x.css';
+export { default as y } from './y.css';
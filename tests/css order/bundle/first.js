@@ -0,0 +1 @@
+export { default as first } from './first.css';
@@ -0,0 +1,5 @@
+export { first } from './first';
+export { default as second } from './second.css';
+export { third } from './third';
+
+export const lazy = () => import('./lazy.css');
@@ -0,0 +1,2 @@
+export { default as third } from './third.css';
+export { first } from './first';
@@ -0,0 +1,38 @@
+const path = require('path');
+const { rollup } = require('rollup');
+const { esbuildResolve } = require('rollup-plugin-esbuild-resolve');
+const { RollupCss } = require('../../dist/index');
+
+const bundleWithWarnings = async (input) => {
+  const warnings = [];
+  const bundle = await rollup({
+    input: input.map((name) => path.resolve(__dirname, `./bundle/${name}.js`)),
+    plugins: [esbuildResolve(), RollupCss({ backend: global.backend })],
+    onwarn: (warning) => warnings.push(warning),
+  });
+  const { output } = await bundle.generate({ dir: 'out' });
+
+  return { output, warnings };
+};
+
+const getSelectors = (source) => source.match(/\.\w+(?= {)/g);
+
+test('css is ordered by the import graph', async () => {
+  const { output, warnings } = await bundleWithWarnings(['input']);
+  const { source } = output.find(({ fileName }) => fileName === 'input.css');
+
+  // css imported by dynamic imports is placed after the css of static imports
+  expect(getSelectors(source)).toEqual(['.first', '.second', '.third', '.lazy']);
+  expect(warnings.filter(({ message }) => message.includes('css order'))).toHaveLength(0);
+});
+
+test('conflicting orders of entries generate a warning', async () => {
+  const { warnings } = await bundleWithWarnings(['conflict-a', 'conflict-b']);
+  const orderWarnings = warnings.filter(({ message }) => message.includes('css order'));
+
+  expect(orderWarnings).toHaveLength(1);
+  expect(orderWarnings[0].message).toContain('x.css');
+  expect(orderWarnings[0].message).toContain('y.css');
+  expect(orderWarnings[0].message).toContain('conflict-a.js');
+  expect(orderWarnings[0].message).toContain('conflict-b.js');
+});
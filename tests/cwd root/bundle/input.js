@@ -0,0 +1 @@
+export { default as css } from './root.css';
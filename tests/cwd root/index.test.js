@@ -0,0 +1,27 @@
+const path = require('path');
+const { rollup } = require('rollup');
+const { esbuildResolve } = require('rollup-plugin-esbuild-resolve');
+const { RollupCss } = require('../../dist/index');
+
+const bundleDir = path.resolve(__dirname, './bundle');
+const cwd = process.cwd();
+
+beforeAll(() => {
+  process.chdir(bundleDir);
+});
+
+afterAll(() => {
+  process.chdir(cwd);
+});
+
+test('css files in the working directory are processed', async () => {
+  const bundle = await rollup({
+    input: path.resolve(bundleDir, 'input.js'),
+    plugins: [esbuildResolve(), RollupCss({ backend: global.backend })],
+  });
+  const { output } = await bundle.generate({ assetFileNames: 'assets/[name][extname]' });
+  const { source: css } = output.find(({ fileName }) => fileName.endsWith('.css'));
+
+  expect(css).toMatch(/\.root\s*{\s*background: url\(image\.svg\);\s*}/);
+  expect(output.some(({ fileName }) => fileName === 'assets/image.svg')).toBe(true);
+});
@@ -0,0 +1,129 @@
+const path = require('path');
+const { SourceMapConsumer } = require('source-map');
+const rollupBundle = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+
+const getChunk = (output, name) =>
+  output.find((file) => file.type === 'chunk' && file.name === name);
+
+const createDocument = () => {
+  const links = [];
+  return {
+    links,
+    styleSheets: [],
+    createElement: () => ({}),
+    head: { appendChild: (link) => links.push(link) },
+  };
+};
+
+test('chunks have the imported css metadata', async () => {
+  const output = await rollupBundle(input);
+
+  expect(getChunk(output, 'input').cssMetadata).toEqual({ importedCss: ['input.css'] });
+  expect(getChunk(output, 'lazy').cssMetadata).toEqual({ importedCss: ['lazy.css'] });
+});
+
+test('dynamic imports are not changed by default', async () => {
+  const { code } = getChunk(await rollupBundle(input), 'input');
+
+  expect(code).not.toContain('__rollupCssLoad');
+});
+
+test('dynamic imports load the css of the imported chunk', async () => {
+  const output = await rollupBundle(input, { output: { cssForDynamicImports: true } });
+  const { code } = getChunk(output, 'input');
+  const { fileName: lazyFileName } = getChunk(output, 'lazy');
+
+  expect(code).toContain(
+    `__rollupCssLoad("lazy.css", import.meta.url, function () { return import('./${lazyFileName}'); })`
+  );
+  expect(code).not.toContain('^<<^');
+});
+
+test('the css of dynamic imports changes the hash of the importing chunk', async () => {
+  const getInputFileName = async (content) =>
+    getChunk(
+      await rollupBundle(
+        input,
+        {
+          output: { cssForDynamicImports: true, cssForChunksFileNames: '[name]-[hash].css' },
+          processors: {
+            custom: new Map([[/lazy\.css$/, ({ css }) => ({ css: css.replace('lazy', content) })]]),
+          },
+        },
+        { entryFileNames: '[name]-[hash].js' }
+      ),
+      'input'
+    ).fileName;
+
+  expect(await getInputFileName('a')).not.toBe(await getInputFileName('b'));
+});
+
+test('css of dynamic imports is not part of the css of the importing chunk', async () => {
+  const output = await rollupBundle(input, { output: { cssForDynamicImports: true } });
+  const { source } = output.find(({ fileName }) => fileName === 'input.css');
+
+  expect(source).toContain('.main');
+  expect(source).not.toContain('.lazy');
+  expect(getChunk(output, 'input').cssMetadata).toEqual({ importedCss: ['input.css'] });
+  expect(getChunk(output, 'lazy').cssMetadata).toEqual({ importedCss: ['lazy.css'] });
+});
+
+test('dynamic imports of modules in manual chunks load the css of the chunk', async () => {
+  const output = await rollupBundle(
+    input,
+    { output: { cssForDynamicImports: true } },
+    { manualChunks: (id) => (/(main|lazy)\.(js|css)$/.test(id) ? 'group' : undefined) }
+  );
+  const { code } = getChunk(output, 'input');
+  const { fileName: groupFileName } = getChunk(output, 'group');
+
+  expect(code).toContain(
+    `__rollupCssLoad("group.css", import.meta.url, function () { return import('./${groupFileName}'); })`
+  );
+  expect(code).not.toContain('^<<^');
+});
+
+test('chunk sourcemaps match the code with the loaded css files', async () => {
+  const output = await rollupBundle(
+    input,
+    { output: { cssForDynamicImports: true } },
+    { sourcemap: true }
+  );
+  const { code, map } = getChunk(output, 'input');
+  const lines = code.split('\n');
+  const line = lines.findIndex((lineContent) => lineContent.includes("import('./"));
+  const position = await SourceMapConsumer.with(map, null, (consumer) =>
+    consumer.originalPositionFor({ line: line + 1, column: lines[line].indexOf("'./") })
+  );
+
+  expect(position).toMatchObject({
+    source: expect.stringMatching(/input\.js$/),
+    line: 3,
+    column: 33,
+  });
+});
+
+test('the import resolves after the css is loaded', async () => {
+  const output = await rollupBundle(input, { output: { cssForDynamicImports: true } });
+  const { code } = getChunk(output, 'input');
+  const loadCss = new Function(
+    'document',
+    `${code.slice(code.indexOf('function __rollupCssLoad'))}\nreturn __rollupCssLoad;`
+  );
+  const document = createDocument();
+  const load = jest.fn(() => 'module');
+
+  const result = loadCss(document)('lazy.css', 'file:///dist/input.js', load);
+  await Promise.resolve();
+
+  expect(document.links).toHaveLength(1);
+  expect(document.links[0]).toMatchObject({ rel: 'stylesheet', href: 'file:///dist/lazy.css' });
+  expect(load).not.toHaveBeenCalled();
+
+  document.links[0].onload();
+
+  await expect(result).resolves.toBe('module');
+  expect(load).toHaveBeenCalledTimes(1);
+});
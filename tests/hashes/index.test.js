@@ -0,0 +1,33 @@
+const path = require('path');
+const { createHash } = require('crypto');
+const rollupBundle = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+
+const getHash = (...contents) => {
+  const hash = createHash('sha256');
+  contents.forEach((content) => hash.update(content));
+  return hash.digest('hex').slice(0, 8);
+};
+
+test('css file hashes reflect the final css content', async () => {
+  const output = await rollupBundle(input, undefined, {
+    assetFileNames: 'assets/[name]-[hash][extname]',
+  });
+  const image = output.find(({ fileName }) => /^assets\/image-\w+\.svg$/.test(fileName));
+  const css = output.find(({ fileName }) => /^assets\/input-\w+\.css$/.test(fileName));
+
+  expect(css.source).toContain(`url(${path.basename(image.fileName)})`);
+  expect(css.fileName).toBe(`assets/input-${getHash('input.css', ':', css.source)}.css`);
+});
+
+test('chunk css file names support the hash placeholder', async () => {
+  const output = await rollupBundle(input, {
+    output: { cssAsAssets: false, cssForChunksFileNames: 'css/[name]-[hash].css' },
+  });
+  const css = output.find(({ fileName }) => fileName.endsWith('.css'));
+
+  expect(css.source).toContain('url(../assets/image.svg)');
+  expect(css.fileName).toBe(`css/input-${getHash(css.source)}.css`);
+  expect(output.find(({ fileName }) => fileName === `${css.fileName}.map`)).toBeDefined();
+});
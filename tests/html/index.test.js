@@ -0,0 +1,64 @@
+const path = require('path');
+const { createHash } = require('crypto');
+const { rollup } = require('rollup');
+const { esbuildResolve } = require('rollup-plugin-esbuild-resolve');
+const { RollupCss } = require('../../dist/index');
+const rollupBundle = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+const template = path.resolve(__dirname, './bundle/index.html');
+
+const getSource = (output, fileName) =>
+  output.find((file) => file.fileName === fileName).source.toString();
+
+test('link tags are added to the html template', async () => {
+  const output = await rollupBundle(input, { html: { template } });
+  const html = getSource(output, 'index.html');
+
+  expect(html).toContain(
+    '    <title>html</title>\n    <link rel="stylesheet" href="input.css">\n  </head>'
+  );
+  expect(html).not.toContain('lazy.css');
+});
+
+test('integrity attributes', async () => {
+  const output = await rollupBundle(input, { html: { template, integrity: 'sha384' } });
+  const integrity = `sha384-${createHash('sha384')
+    .update(getSource(output, 'input.css'))
+    .digest('base64')}`;
+
+  expect(getSource(output, 'index.html')).toContain(
+    `<link rel="stylesheet" href="input.css" integrity="${integrity}">`
+  );
+});
+
+test('preload hints for the css of dynamic imports', async () => {
+  const output = await rollupBundle(input, {
+    html: { template, fileName: 'pages/page.html', preload: true },
+  });
+
+  expect(getSource(output, 'pages/page.html')).toContain(
+    '    <link rel="stylesheet" href="../input.css">\n    <link rel="preload" as="style" href="../lazy.css">\n'
+  );
+});
+
+test('link tags are added to html assets of the bundle', async () => {
+  const bundle = await rollup({
+    input,
+    plugins: [
+      esbuildResolve(),
+      {
+        name: 'html-asset',
+        generateBundle() {
+          this.emitFile({ type: 'asset', fileName: 'app.html', source: '<body></body>' });
+        },
+      },
+      RollupCss({ backend: global.backend, html: { template: 'app.html' } }),
+    ],
+  });
+  const { output } = await bundle.generate({ dir: 'out' });
+
+  expect(getSource(output, 'app.html')).toBe(
+    '<link rel="stylesheet" href="input.css">\n<body></body>'
+  );
+});
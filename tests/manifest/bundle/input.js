@@ -0,0 +1,3 @@
+export { default as main } from './main.css';
+
+export const lazy = () => import('./lazy');
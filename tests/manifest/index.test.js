@@ -0,0 +1,77 @@
+const path = require('path');
+const rollupBundle = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+const bundleDir = 'tests/manifest/bundle';
+
+const bundleManifest = async (options) => {
+  const output = await rollupBundle(input, {
+    assets: { inline: /\.png$/ },
+    ...options,
+  });
+  const manifestFile = output.find(({ fileName }) => fileName.endsWith('.json'));
+
+  return { output, manifestFile, manifest: manifestFile && JSON.parse(manifestFile.source) };
+};
+
+test('no manifest is emitted by default', async () => {
+  const { manifestFile } = await bundleManifest();
+
+  expect(manifestFile).toBeUndefined();
+});
+
+test('manifest describes the css files and chunks', async () => {
+  const { output, manifestFile, manifest } = await bundleManifest({ output: { manifest: true } });
+  const lazyChunk = output.find(({ name }) => name === 'lazy');
+
+  expect(manifestFile.fileName).toBe('css-manifest.json');
+  expect(manifest).toEqual({
+    chunks: {
+      [`${bundleDir}/input.js`]: {
+        file: 'input.js',
+        name: 'input',
+        isEntry: true,
+        isDynamicEntry: false,
+        importedCss: ['input.css'],
+        sources: [`${bundleDir}/main.css`],
+      },
+      [`${bundleDir}/lazy.js`]: {
+        file: lazyChunk.fileName,
+        name: 'lazy',
+        isEntry: false,
+        isDynamicEntry: true,
+        importedCss: ['lazy.css'],
+        sources: [`${bundleDir}/lazy.css`],
+      },
+    },
+    css: {
+      [`${bundleDir}/lazy.css`]: {
+        file: 'assets/lazy.css',
+        chunks: [`${bundleDir}/lazy.js`],
+        inputs: [],
+      },
+      [`${bundleDir}/main.css`]: {
+        file: 'assets/main.css',
+        chunks: [`${bundleDir}/input.js`],
+        inputs: [
+          { path: '/public/external.png', file: null, external: true, inlined: false },
+          {
+            path: `${bundleDir}/image.svg`,
+            file: 'assets/image.svg',
+            external: false,
+            inlined: false,
+          },
+          { path: `${bundleDir}/pixel.png`, file: null, external: false, inlined: true },
+        ],
+      },
+    },
+  });
+});
+
+test('manifest is deterministic', async () => {
+  const { manifestFile: first } = await bundleManifest({ output: { manifest: 'manifest.json' } });
+  const { manifestFile: second } = await bundleManifest({ output: { manifest: 'manifest.json' } });
+
+  expect(first.fileName).toBe('manifest.json');
+  expect(second.source).toBe(first.source);
+});
@@ -0,0 +1,8 @@
+module.exports = {
+  postcssPlugin: 'uppercase-color',
+  Declaration: {
+    color: (decl) => {
+      decl.value = decl.value.toUpperCase();
+    },
+  },
+};
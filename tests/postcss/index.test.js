@@ -0,0 +1,49 @@
+const path = require('path');
+const rollupBundle = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+
+// the css is read before the backend prints it, lightningcss would normalize the colors
+const getPostcssResult = async (options) => {
+  let postcssResult;
+  await rollupBundle(input, {
+    ...options,
+    processors: {
+      ...options?.processors,
+      custom: ({ css, map }) => {
+        postcssResult = css;
+        return { css, map };
+      },
+    },
+  });
+
+  return postcssResult;
+};
+
+test('postcss config file is discovered', async () => {
+  expect(await getPostcssResult()).toContain('color: RED;');
+});
+
+test('postcss plugins option', async () => {
+  const css = await getPostcssResult({
+    processors: {
+      postcss: [
+        /\.pcss$/,
+        {
+          plugins: [
+            {
+              postcssPlugin: 'rename-color',
+              Declaration: {
+                color: (decl) => {
+                  decl.value = 'blue';
+                },
+              },
+            },
+          ],
+        },
+      ],
+    },
+  });
+
+  expect(css).toContain('color: blue;');
+});
@@ -3,16 +3,20 @@ const { esbuildResolve } = require('rollup-plugin-esbuild-resolve');
 const { nodeResolve } = require('@rollup/plugin-node-resolve');
 const { RollupCss } = require('../dist/index');
 
-module.exports = async (input, options) => {
+module.exports = async (input, options, outputOptions) => {
   const config = {
     input,
     output: {
       dir: 'out',
       assetFileNames: 'assets/[name][extname]',
+      ...outputOptions,
     },
-    plugins: [esbuildResolve(), RollupCss(options)],
+    plugins: [esbuildResolve(), RollupCss({ backend: global.backend, ...options })],
   };
   const bundle = await rollup(config);
   const generated = await bundle.write(config.output);
   return generated.output;
 };
+
+// picks the expectation of the backend the tests run with, for behavior which differs between the backends
+module.exports.byBackend = (expectations) => expectations[global.backend];
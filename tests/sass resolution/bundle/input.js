@@ -0,0 +1 @@
+import './input.scss';
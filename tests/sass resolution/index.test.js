@@ -0,0 +1,44 @@
+const path = require('path');
+const rollupBundle = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+
+const getCss = (output) => output.find(({ fileName }) => fileName === 'input.css').source;
+
+test('partials and index files are resolved', async () => {
+  const css = getCss(await rollupBundle(input));
+
+  expect(css).toMatch(/\.c\s*{\s*color: red;\s*}/);
+  // lightningcss orders the declarations differently
+  expect(css).toMatch(/\.input\s*{[^}]*width: 4px;/);
+  expect(css).toMatch(/\.input\s*{[^}]*color: red;/);
+});
+
+test('package imports are resolved', async () => {
+  const css = getCss(await rollupBundle(input));
+
+  expect(css).toMatch(/\.fake-package\s*{\s*content: "fake-package";\s*}/);
+});
+
+test('modules loaded with different urls are evaluated once', async () => {
+  const css = getCss(await rollupBundle(input));
+
+  expect(css.match(/\.b\s*{/g)).toHaveLength(1);
+});
+
+test('imports are resolved with the resolve option', async () => {
+  const aliasInput = path.resolve(__dirname, './bundle/alias.js');
+  const css = (
+    await rollupBundle(aliasInput, {
+      resolve: (pathToResolve, importer, context, defaultResult) =>
+        pathToResolve.startsWith('@alias/')
+          ? {
+              path: path.resolve(__dirname, './bundle/folder', pathToResolve.slice(7)),
+              external: false,
+            }
+          : defaultResult,
+    })
+  ).find(({ fileName }) => fileName === 'alias.css').source;
+
+  expect(css).toMatch(/\.alias\s*{\s*color: red;\s*}/);
+});
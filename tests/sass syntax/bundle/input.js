@@ -0,0 +1,2 @@
+import './indented.sass';
+import './braces.scss';
@@ -0,0 +1,21 @@
+const path = require('path');
+const rollupBundle = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+
+const getCss = (output, fileName) => output.find((file) => file.fileName === fileName).source;
+
+test('indented sass entry file imports scss file', async () => {
+  const output = await rollupBundle(input);
+  const css = getCss(output, 'assets/indented.css');
+
+  expect(css).toMatch(/\.indented\s*{\s*color: red;\s*}/);
+  expect(css).toMatch(/\.indented \.nested\s*{\s*color: green;\s*}/);
+});
+
+test('scss entry file imports indented sass file', async () => {
+  const output = await rollupBundle(input);
+  const css = getCss(output, 'assets/braces.css');
+
+  expect(css).toMatch(/\.braces\s*{\s*padding: 4px;\s*}/);
+});
@@ -0,0 +1,77 @@
+const path = require('path');
+const { rollup } = require('rollup');
+const { esbuildResolve } = require('rollup-plugin-esbuild-resolve');
+const { RollupCss } = require('../../dist/index');
+const rollupBundle = require('../rollupBundle');
+
+const input = ['a', 'b'].map((name) => path.resolve(__dirname, `./bundle/${name}.js`));
+
+const getChunkCssFiles = (output) =>
+  output.filter(({ type, fileName }) => type === 'asset' && /^[^/]+\.css$/.test(fileName));
+
+const getSource = (output, fileName) => output.find((file) => file.fileName === fileName).source;
+
+test('css used by multiple chunks is part of each chunk by default', async () => {
+  const output = await rollupBundle(input);
+
+  expect(getSource(output, 'a.css')).toContain('.lazy');
+  expect(getSource(output, 'b.css')).toContain('.lazy');
+});
+
+test('css of entries is placed before the css they share', async () => {
+  const warnings = [];
+  const bundle = await rollup({
+    input,
+    plugins: [esbuildResolve(), RollupCss({ backend: global.backend })],
+    onwarn: (warning) => warnings.push(warning),
+  });
+  const { output } = await bundle.generate({ dir: 'out' });
+  const source = getSource(output, 'b.css');
+
+  expect(source.indexOf('.b')).toBeGreaterThan(-1);
+  expect(source.indexOf('.b')).toBeLessThan(source.indexOf('.lazy'));
+  expect(warnings.filter(({ message }) => message.includes('css order'))).toHaveLength(0);
+});
+
+test('css used by multiple chunks is extracted once into a shared css file', async () => {
+  const output = await rollupBundle(input, { output: { cssForChunksShared: true } });
+  const lazyCssFiles = getChunkCssFiles(output).filter(({ source }) => source.includes('.lazy'));
+
+  expect(lazyCssFiles).toHaveLength(1);
+  expect(lazyCssFiles[0].fileName).toMatch(/^shared-\w+\.css$/);
+  expect(getSource(output, 'a.css')).toContain('.a');
+  expect(getSource(output, 'a.css')).not.toContain('.lazy');
+  expect(getSource(output, 'b.css')).not.toContain('.lazy');
+  // the css of the lazy chunk is completely shared
+  expect(output.find(({ fileName }) => fileName === 'lazy.css')).toBeUndefined();
+});
+
+test('shared css file names', async () => {
+  const output = await rollupBundle(input, {
+    output: { cssForChunksShared: true, cssForChunksSharedFileNames: '[name].shared.css' },
+  });
+
+  expect(getSource(output, 'lazy.shared.css')).toContain('.lazy');
+});
+
+test('extract callback receives the shared css files', async () => {
+  const chunkDependencies = {};
+  await rollupBundle(input, {
+    output: {
+      cssForChunksShared: true,
+      cssForChunks: {
+        extract: (chunk, cssDependencies) => {
+          chunkDependencies[chunk.name] = cssDependencies;
+          return true;
+        },
+      },
+    },
+  });
+  const getDependency = (chunkName, inputName) =>
+    chunkDependencies[chunkName].find(({ inputFile }) => inputFile.endsWith(inputName));
+
+  expect(getDependency('a', 'a.css').sharedFile).toBeNull();
+  expect(getDependency('a', 'lazy.css').sharedFile).toMatch(/^shared-\w+\.css$/);
+  expect(getDependency('a', 'lazy.css').dynamicOrigin).toBe(true);
+  expect(getDependency('b', 'lazy.css').sharedFile).toBe(getDependency('a', 'lazy.css').sharedFile);
+});
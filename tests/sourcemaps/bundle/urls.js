@@ -0,0 +1 @@
+import './urls.css';
@@ -0,0 +1,83 @@
+const path = require('path');
+const { SourceMapConsumer } = require('source-map');
+const rollupBundle = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+
+const getAsset = (output, fileName) => output.find((file) => file.fileName === fileName);
+
+const getOriginalPosition = async (output, fileName, search) => {
+  const { source } = getAsset(output, fileName);
+  const { source: map } = getAsset(output, `${fileName}.map`);
+  const lines = source.toString().split(/\r?\n/);
+  const line = lines.findIndex((lineContent) => lineContent.includes(search));
+  const column = lines[line].indexOf(search);
+
+  return SourceMapConsumer.with(JSON.parse(map), null, (consumer) =>
+    consumer.originalPositionFor({ line: line + 1, column })
+  );
+};
+
+const getToken = (lines, line, column) =>
+  lines[line - 1]
+    .slice(column)
+    .match(/^[^;{}(]*/)[0]
+    .replace(/\s/g, '');
+
+// the backends map different parts of the css (lightningcss only maps rules), so the code at every mapping is compared with the original code
+const getMappedTokens = async (output, fileName) => {
+  const { source } = getAsset(output, fileName);
+  const { source: map } = getAsset(output, `${fileName}.map`);
+  const lines = source.toString().split(/\r?\n/);
+  const tokens = { generated: [], original: [] };
+
+  await SourceMapConsumer.with(JSON.parse(map), null, (consumer) =>
+    consumer.eachMapping((mapping) => {
+      const generated = getToken(lines, mapping.generatedLine, mapping.generatedColumn);
+      // esbuild additionally maps the ends of declarations
+      if (mapping.source === null || !generated) return;
+      const originalLines = consumer.sourceContentFor(mapping.source).split(/\r?\n/);
+      tokens.generated.push(generated);
+      tokens.original.push(getToken(originalLines, mapping.originalLine, mapping.originalColumn));
+    })
+  );
+
+  return tokens;
+};
+
+test('chunk css files have merged sourcemaps', async () => {
+  const output = await rollupBundle(input);
+  const a = await getOriginalPosition(output, 'input.css', '.a');
+  const b = await getOriginalPosition(output, 'input.css', '.b');
+  const tokens = await getMappedTokens(output, 'input.css');
+
+  expect(a).toMatchObject({ source: expect.stringMatching(/a\.css$/), line: 1, column: 0 });
+  expect(b).toMatchObject({ source: expect.stringMatching(/b\.css$/), line: 3, column: 0 });
+  expect(tokens.generated).not.toHaveLength(0);
+  expect(tokens.generated).toEqual(tokens.original);
+});
+
+test('sourcemaps are correct after asset url substitution', async () => {
+  const output = await rollupBundle(path.resolve(__dirname, './bundle/urls.js'), {
+    output: { minify: true },
+  });
+  const { source } = getAsset(output, 'urls.css');
+  const tokens = await getMappedTokens(output, 'urls.css');
+
+  expect(source).toContain('url(assets/image.svg)');
+  expect(tokens.generated).not.toHaveLength(0);
+  expect(tokens.generated).toEqual(tokens.original);
+});
+
+test('custom extract source has no default sourcemap', async () => {
+  const output = await rollupBundle(input, {
+    output: {
+      cssForChunks: {
+        extract: (chunk, cssDependencies, { name }) => ({ name, source: '.custom {}' }),
+      },
+    },
+  });
+
+  expect(getAsset(output, 'input.css')).toBeDefined();
+  expect(getAsset(output, 'input.css.map')).toBeUndefined();
+});
@@ -0,0 +1,47 @@
+const path = require('path');
+const { rollup } = require('rollup');
+const { esbuildResolve } = require('rollup-plugin-esbuild-resolve');
+const { RollupCss } = require('../../dist/index');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+const stylesDir = path.resolve(__dirname, './bundle/styles');
+
+const bundleWithAlias = async () => {
+  const resolveContexts = [];
+  const bundle = await rollup({
+    input,
+    plugins: [
+      esbuildResolve(),
+      RollupCss({
+        backend: global.backend,
+        resolve: (pathToResolve, importer, context, defaultResult) => {
+          if (pathToResolve.startsWith('@styles/')) {
+            resolveContexts.push(context);
+            return { path: path.join(stylesDir, pathToResolve.slice(8)), external: false };
+          }
+          return defaultResult;
+        },
+      }),
+    ],
+  });
+  const { output } = await bundle.generate({ dir: 'out' });
+
+  return { output, watchFiles: bundle.watchFiles, resolveContexts };
+};
+
+test('stylus imports are resolved with the resolve option', async () => {
+  const { output, resolveContexts } = await bundleWithAlias();
+  const css = output.find(({ fileName }) => fileName === 'input.css').source;
+
+  expect(css).toMatch(/\.input\s*{\s*color: (#f00|red);\s*padding: 4px;\s*}/);
+  expect(resolveContexts.length).toBeGreaterThan(0);
+  expect(resolveContexts.every((context) => context === '@import')).toBe(true);
+});
+
+test('resolved stylus imports are watched', async () => {
+  const { watchFiles } = await bundleWithAlias();
+  const normalizedWatchFiles = watchFiles.map((watchFile) => path.normalize(watchFile));
+
+  expect(normalizedWatchFiles).toContain(path.join(stylesDir, 'colors.styl'));
+  expect(normalizedWatchFiles).toContain(path.join(stylesDir, 'sizes.styl'));
+});
@@ -0,0 +1 @@
+import './input.sss';
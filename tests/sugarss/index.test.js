@@ -0,0 +1,48 @@
+const path = require('path');
+const rollupBundle = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+
+const getOutputFile = (output, fileName) => output.find((file) => file.fileName === fileName);
+
+test('sugarss files are parsed', async () => {
+  const output = await rollupBundle(input);
+  const { source } = getOutputFile(output, 'input.css');
+
+  expect(source).toMatch(/\.button\s*{\s*color: red;\s*padding: 4px 8px;\s*}/);
+  // lightningcss prints colors in their shortest form
+  expect(source).toMatch(/\.link\s*{\s*color: (blue|#00f);\s*}/);
+});
+
+test('sugarss files are passed to the postcss plugins', async () => {
+  const output = await rollupBundle(input, {
+    processors: {
+      postcss: [
+        /\.sss$/,
+        {
+          plugins: [
+            {
+              postcssPlugin: 'replace-color',
+              Declaration: {
+                color: (decl) => {
+                  decl.value = { red: '#abcdef', blue: '#fedcba' }[decl.value] || decl.value;
+                },
+              },
+            },
+          ],
+        },
+      ],
+    },
+  });
+  const { source } = getOutputFile(output, 'input.css');
+
+  expect(source).toMatch(/\.button\s*{\s*color: #abcdef;\s*padding: 4px 8px;\s*}/);
+  expect(source).toMatch(/\.link\s*{\s*color: #fedcba;\s*}/);
+});
+
+test('sugarss sourcemap points to the original file', async () => {
+  const output = await rollupBundle(input);
+  const map = JSON.parse(getOutputFile(output, 'input.css.map').source);
+
+  expect(map.sources.some((source) => source.endsWith('input.sss'))).toBe(true);
+});
@@ -0,0 +1,53 @@
+const path = require('path');
+const { rollup } = require('rollup');
+const { esbuildResolve } = require('rollup-plugin-esbuild-resolve');
+const { RollupCss } = require('../../dist/index');
+const { byBackend } = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+const cssPath = path.resolve(__dirname, './bundle/input.css');
+
+const bundleWithTargets = async (targets) => {
+  const warnings = [];
+  const bundle = await rollup({
+    input,
+    plugins: [esbuildResolve(), RollupCss({ backend: global.backend, targets })],
+    onwarn: (warning) => warnings.push(warning),
+  });
+  const { output } = await bundle.generate({ dir: 'out' });
+
+  return { css: output.find(({ fileName }) => fileName === 'input.css').source, warnings };
+};
+
+test('modern syntax is lowered for esbuild targets', async () => {
+  const { css } = await bundleWithTargets(['chrome58']);
+
+  expect(css).toMatch(/color: rgba\(1, 2, 3, 0?\.5\);/);
+});
+
+test('modern syntax is lowered for browserslist queries', async () => {
+  const { css } = await bundleWithTargets('chrome 58');
+
+  expect(css).toMatch(/color: rgba\(1, 2, 3, 0?\.5\);/);
+});
+
+test('modern syntax is kept without targets', async () => {
+  const { css } = await bundleWithTargets(null);
+
+  expect(css).not.toContain('rgba(');
+});
+
+test('nesting is lowered or reported with its location', async () => {
+  const { css, warnings } = await bundleWithTargets(['chrome58']);
+  const nestingLocs = warnings
+    .filter(({ message }) => message.includes('nesting'))
+    .map(({ loc }) => ({ ...loc, file: path.normalize(loc.file) }));
+
+  // esbuild can't lower nesting
+  expect(css).toMatch(
+    byBackend({ esbuild: /& \.child/, lightningcss: /\.parent \.child\s*{\s*color: red;\s*}/ })
+  );
+  expect(nestingLocs).toEqual(
+    byBackend({ esbuild: [{ file: cssPath, line: 6, column: 2 }], lightningcss: [] })
+  );
+});
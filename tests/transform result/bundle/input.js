@@ -0,0 +1,4 @@
+import styles from './button.module.css';
+import plain from './plain.css';
+
+export { styles, plain };
@@ -0,0 +1,3 @@
+import styles, { button, buttonPrimary } from './button.module.css';
+
+export { styles, button, buttonPrimary };
@@ -0,0 +1,3 @@
+import './plain.css';
+
+export const value = 'value';
@@ -0,0 +1,54 @@
+const fs = require('fs');
+const path = require('path');
+const rollupBundle = require('../rollupBundle');
+
+const input = path.resolve(__dirname, './bundle/input.js');
+
+test('css modules export their class name mapping by default', async () => {
+  const [chunk] = await rollupBundle(input);
+
+  expect(chunk.code).toMatch(/"button":"button-module_button_\w+"/);
+  expect(chunk.code).toMatch(/var \S+ = undefined;/);
+  expect(chunk.code).not.toContain('.plain');
+});
+
+test('unused default exports of stylesheets are tree-shaken', async () => {
+  const output = await rollupBundle(path.resolve(__dirname, './bundle/side-effect.js'));
+  const [chunk] = output;
+  const css = output.find(({ fileName }) => fileName.endsWith('.css'));
+
+  expect(chunk.code).not.toContain('undefined');
+  expect(css.source.toString()).toContain('.plain');
+});
+
+test('custom transform result exports the css string', async () => {
+  const [chunk] = await rollupBundle(input, {
+    transform: {
+      result: ({ css, data }, defaultResult) =>
+        data.cssModules ? defaultResult : { code: `export default ${JSON.stringify(css)};` },
+    },
+  });
+
+  expect(chunk.code).toMatch(/"button":"button-module_button_\w+"/);
+  expect(chunk.code).toContain('.plain');
+  expect(chunk.code).toContain('url(assets/image.svg)');
+});
+
+test('css modules named exports and typescript declarations', async () => {
+  const dtsPath = path.resolve(__dirname, './bundle/button.module.css.d.ts');
+
+  try {
+    const [chunk] = await rollupBundle(path.resolve(__dirname, './bundle/named.js'), {
+      transform: { cssModules: { namedExports: true, dts: true } },
+    });
+    const dts = fs.readFileSync(dtsPath, 'utf8');
+
+    expect(chunk.code).toMatch(/const button = "button-module_button_\w+";/);
+    expect(chunk.code).toMatch(/const buttonPrimary = "button-module_button-primary_\w+";/);
+    expect(dts).toContain('readonly "button-primary": string;');
+    expect(dts).toContain('export default styles;');
+    expect(dts).toContain('export declare const buttonPrimary: string;');
+  } finally {
+    fs.rmSync(dtsPath, { force: true });
+  }
+});
@@ -0,0 +1 @@
+import './watched.css';
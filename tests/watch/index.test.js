@@ -0,0 +1,86 @@
+const fs = require('fs');
+const path = require('path');
+const esbuild = require('esbuild');
+const { watch } = require('rollup');
+const { esbuildResolve } = require('rollup-plugin-esbuild-resolve');
+const { RollupCss } = require('../../dist/index');
+const { byBackend } = require('../rollupBundle');
+
+jest.mock('esbuild', () => {
+  const actualEsbuild = jest.requireActual('esbuild');
+  return { ...actualEsbuild, build: jest.fn(actualEsbuild.build) };
+});
+
+const bundleDir = path.resolve(__dirname, './bundle');
+// the copies are kept inside of the working directory, esbuild doesn't build files outside of it
+const fixturesDir = path.resolve(__dirname, '../../out/fixtures');
+
+// every backend watches its own copy of the fixture, the watched file and the output would be shared otherwise
+let fixtureDir;
+let input;
+let watchedPath;
+let outputDir;
+let outputPath;
+
+const writeWatched = (color) => fs.writeFileSync(watchedPath, `.watched { color: ${color}; }\n`);
+
+const waitForBuild = (watcher) =>
+  new Promise((resolve, reject) => {
+    const onEvent = (event) => {
+      if (event.code === 'END' || event.code === 'ERROR') {
+        watcher.off('event', onEvent);
+        event.code === 'END' ? resolve() : reject(event.error);
+      }
+      if (event.result) {
+        event.result.close();
+      }
+    };
+    watcher.on('event', onEvent);
+  });
+
+const watchFixture = () =>
+  watch({
+    input,
+    output: { dir: outputDir },
+    plugins: [esbuildResolve(), RollupCss({ backend: global.backend })],
+    watch: { skipWrite: false },
+  });
+
+beforeEach(() => {
+  fs.mkdirSync(fixturesDir, { recursive: true });
+  fixtureDir = fs.mkdtempSync(path.join(fixturesDir, `watch-${global.backend}-`));
+  fs.cpSync(bundleDir, fixtureDir, { recursive: true });
+  input = path.join(fixtureDir, 'input.js');
+  watchedPath = path.join(fixtureDir, 'watched.css');
+  outputDir = path.join(fixtureDir, 'out');
+  outputPath = path.join(outputDir, 'input.css');
+});
+
+afterEach(() => {
+  fs.rmSync(fixtureDir, { recursive: true, force: true });
+});
+
+test('changed files are rebuilt in watch mode', async () => {
+  writeWatched('red');
+  const watcher = watchFixture();
+
+  try {
+    await waitForBuild(watcher);
+    expect(fs.readFileSync(outputPath, 'utf8')).toContain('color: red;');
+
+    const rebuild = waitForBuild(watcher);
+    writeWatched('#abcdef');
+    await rebuild;
+    expect(fs.readFileSync(outputPath, 'utf8')).toContain('color: #abcdef;');
+
+    // esbuild is also used by the resolve plugin, its css builds are reused
+    const cssBuilds = esbuild.build.mock.calls.filter(([{ entryPoints }]) =>
+      (entryPoints || []).includes(watchedPath)
+    );
+    expect(cssBuilds.map(([{ incremental }]) => incremental)).toEqual(
+      byBackend({ esbuild: [true], lightningcss: [] })
+    );
+  } finally {
+    await watcher.close();
+  }
+}, 20000);